@@ -13,11 +13,93 @@ const contentTypes = {
   '.json': 'application/json',
   '.css': 'text/css',
   '.ts': 'text/typescript',
-  '.svg': 'image/svg+xml'
+  '.svg': 'image/svg+xml',
+  '.pb': 'application/x-protobuf',
+  '.jsonl': 'application/x-ndjson'
 };
 
+// Mock live trace: a batch job whose steps are streamed as they start and finish
+const STREAM_STEPS = 8;
+const STREAM_STEP_MS = 800;
+
+function randomHex(length) {
+  return Array.from({ length }, () => Math.floor(Math.random() * 16).toString(16)).join('');
+}
+
+function streamSpan(span) {
+  return {
+    resourceSpans: [{
+      resource: { attributes: [{ key: 'service.name', value: { stringValue: span.service } }] },
+      scopeSpans: [{
+        scope: { name: 'demo-stream' },
+        spans: [{
+          traceId: span.traceId,
+          spanId: span.spanId,
+          parentSpanId: span.parentSpanId,
+          name: span.name,
+          kind: span.kind,
+          startTimeUnixNano: (BigInt(span.start) * 1000000n).toString(),
+          // Running spans have no end time yet
+          endTimeUnixNano: span.end ? (BigInt(span.end) * 1000000n).toString() : '0',
+          attributes: span.step ? [{ key: 'job.step', value: { intValue: span.step } }] : [],
+          status: { code: 0 }
+        }]
+      }]
+    }]
+  };
+}
+
+function handleStream(req, res) {
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    'Connection': 'keep-alive'
+  });
+
+  const traceId = randomHex(32);
+  const root = { traceId, spanId: randomHex(16), name: 'nightly-batch-job', kind: 2, service: 'job-runner', start: Date.now() };
+  const send = (span) => res.write(`data: ${JSON.stringify(streamSpan(span))}\n\n`);
+  send(root);
+
+  let step = 0;
+  let current;
+  const timer = setInterval(() => {
+    if (current) {
+      current.end = Date.now();
+      send(current);
+    }
+    if (step === STREAM_STEPS) {
+      clearInterval(timer);
+      root.end = Date.now();
+      send(root);
+      res.write('event: end\ndata: done\n\n');
+      res.end();
+      return;
+    }
+    step++;
+    current = {
+      traceId,
+      spanId: randomHex(16),
+      parentSpanId: root.spanId,
+      name: `process-partition-${step}`,
+      kind: step % 3 === 0 ? 3 : 1,
+      service: step % 3 === 0 ? 'storage-service' : 'job-runner',
+      start: Date.now(),
+      step
+    };
+    send(current);
+  }, STREAM_STEP_MS);
+
+  req.on('close', () => clearInterval(timer));
+}
+
 const server = http.createServer((req, res) => {
   let filePath = req.url;
+
+  if (filePath === '/stream') {
+    handleStream(req, res);
+    return;
+  }
   
   // Default to demo.html
   if (filePath === '/' || filePath === '') {
@@ -1,18 +1,54 @@
-import { TraceData } from './opentelemetry/trace.js';
-import { TraceTree } from './trace-tree.js';
-import { Template } from './template.js';
-import { VisualizationConfig } from './visualization-config.js';
+import { TraceData, Span } from './opentelemetry/trace.js';
+import { LogsData } from './opentelemetry/logs.js';
+import { readTraceData, readLogsData, toTraceData, mergeTraceData } from './converters/trace-payload.js';
+import { decodeOtlpProtobuf } from './converters/otlp-protobuf.js';
+import { TraceTree, TraceSummary } from './trace-tree.js';
+import { Template, TraceViewMode, BreakdownViewOptions, StreamState, LinkConnector } from './template.js';
+import { SpanFilter } from './span-filter.js';
+import { VisualizationConfig, ColorBy } from './visualization-config.js';
 import css from './styles.css';
 
 const styleSheet = new CSSStyleSheet();
 styleSheet.replaceSync(css);
 
+/** Rows rendered above and below the viewport. */
+const OVERSCAN_ROWS = 20;
+
+/** Share of the timeline width panned per Shift/Alt+Arrow key press. */
+const KEYBOARD_PAN_STEP = 0.1;
+
+/** Scrollable parts of the view whose position is kept when it is re-rendered. */
+const SCROLL_CONTAINERS = ['.detail-content', '.service-graph'];
+
+/** Timeline width of exported images when the waterfall is not on screen. */
+const DEFAULT_EXPORT_TIMELINE_WIDTH = 800;
+
+/**
+ * Streamed spans are shown after waiting this many times as long as the last
+ * refresh took, so rebuilding a growing trace takes at most a fifth of the time.
+ */
+const STREAM_REFRESH_DELAY_FACTOR = 4;
+
+type ExportFormat = 'svg' | 'png' | 'html';
+
 /**
  * Custom Web Component for trace visualization
  * Usage: <trace-visualizer></trace-visualizer>
+ *
+ * Styling: the `theme` attribute selects `light` (default), `dark` or `auto`
+ * (follows prefers-color-scheme), and every colour is a `--trace-*` custom
+ * property. Parts: viewer, header, tabs, tab, search, chart, timeline,
+ * span-row, span-label, span-bar, detail-panel, zoom-controls, legend,
+ * flame-graph, flame-node, breakdown, service-graph, trace-list, message.
  */
 export class TraceVisualizerElement extends HTMLElement {
   private _tree = new TraceTree([], new Map(), new Map());
+  private _traceData?: TraceData;
+  private _logsData?: LogsData;
+  private _traces: TraceTree[] = [];
+  private selectedTraceId?: string;
+  private traceListSort: { key: keyof TraceSummary; descending: boolean } = { key: 'startMs', descending: false };
+  private traceListFilter: string = '';
   private _overrides: Partial<VisualizationConfig> = {};
   private shadow: ShadowRoot;
   private zoomLevel: number = 1;
@@ -20,6 +56,33 @@ export class TraceVisualizerElement extends HTMLElement {
   private isPanning: boolean = false;
   private panStartX: number = 0;
   private panStartOffset: number = 0;
+  private showCriticalPath: boolean = false;
+  private searchQuery: string = '';
+  private hideNonMatching: boolean = false;
+  private searchMatchIndex: number = -1;
+  private collapsed = new Set<string>();
+  private collapseDepth: number = 2;
+  private selectedSpanId?: string;
+  private focusedSpanId?: string;
+  private viewMode: TraceViewMode = 'waterfall';
+  private breakdown: BreakdownViewOptions = { groupBy: 'operation', sort: { key: 'selfMs', descending: true } };
+  private highlight?: { serviceName: string; name?: string };
+  private highlightIds = new Set<string>();
+  private flameZoomSpanId?: string;
+  private dependencyFilter?: { source: string; target: string };
+  private adjustClockSkew: boolean = true;
+  private detailTab: 'details' | 'json' = 'details';
+  private searchMatches: Span[] = [];
+  private rows: Array<{ span: Span; level: number }> = [];
+  private rowIndexOf = new Map<string, number>();
+  private linkConnectors: LinkConnector[] = [];
+  private renderedRows = { start: 0, end: 0 };
+  private windowFrame: number = 0;
+  private stream?: EventSource | WebSocket;
+  private streamState?: StreamState;
+  private streamFrame: number = 0;
+  private pendingSpans: TraceData[] = [];
+  private streamRefreshMs = 0;
   private resizeObserver: ResizeObserver;
 
   constructor() {
@@ -36,10 +99,12 @@ export class TraceVisualizerElement extends HTMLElement {
   }
 
   static get observedAttributes() {
-    return ['data-url', 'width', 'height', 'show-legend', 'full-width', 'detail-panel-width'];
+    return ['data-url', 'logs-url', 'width', 'height', 'show-legend', 'full-width', 'detail-panel-width', 'view', 'stream-url', 'color-by'];
   }
 
   connectedCallback() {
+    document.addEventListener('scroll', this.onViewportChange, { capture: true, passive: true });
+    window.addEventListener('resize', this.onViewportChange, { passive: true });
     this.render();
 
     // Load data from URL if specified
@@ -47,14 +112,39 @@ export class TraceVisualizerElement extends HTMLElement {
     if (dataUrl) {
       this.loadTraceData(dataUrl);
     }
+
+    const logsUrl = this.getAttribute('logs-url');
+    if (logsUrl) {
+      this.loadLogsData(logsUrl);
+    }
+
+    const streamUrl = this.getAttribute('stream-url');
+    if (streamUrl) {
+      this.openStream(streamUrl);
+    }
   }
 
   disconnectedCallback() {
     this.resizeObserver.disconnect();
+    document.removeEventListener('scroll', this.onViewportChange, { capture: true });
+    window.removeEventListener('resize', this.onViewportChange);
+    cancelAnimationFrame(this.windowFrame);
+    this.closeStream();
   }
 
-  attributeChangedCallback(_name: string, oldValue: string, newValue: string) {
+  attributeChangedCallback(name: string, oldValue: string, newValue: string) {
     if (oldValue !== newValue) {
+      if (name === 'stream-url' && this.isConnected) {
+        if (newValue) {
+          this.openStream(newValue);
+        } else {
+          this.closeStream();
+          this.streamState = undefined;
+        }
+      }
+      if (name === 'view') {
+        this.viewMode = newValue === 'flame' || newValue === 'breakdown' || newValue === 'graph' ? newValue : 'waterfall';
+      }
       this.updateConfigFromAttributes();
       this.render();
     }
@@ -64,7 +154,9 @@ export class TraceVisualizerElement extends HTMLElement {
    * Set trace data programmatically
    */
   set traceData(data: TraceData) {
-    this._tree = TraceTree.build(data);
+    this._traceData = data;
+    this.pendingSpans = [];
+    this.rebuildTree();
     this.render();
   }
 
@@ -72,6 +164,178 @@ export class TraceVisualizerElement extends HTMLElement {
     return this._tree;
   }
 
+  /**
+   * Set log data programmatically. Records are correlated with spans by spanId;
+   * without trace data, spans are derived from the logs themselves.
+   */
+  set logsData(data: LogsData) {
+    this._logsData = data;
+    this.rebuildTree();
+    this.render();
+  }
+
+  get logsData(): LogsData | undefined {
+    return this._logsData;
+  }
+
+  /**
+   * Add spans to the loaded data, e.g. the latest batch of a trace that is
+   * still running. A span sent again replaces its earlier copy once it has
+   * ended. Batches are merged and shown together, less often as the trace
+   * grows; the view keeps its zoom, pan, selection, filters and scroll position.
+   */
+  appendSpans(data: TraceData): void {
+    this.pendingSpans.push(data);
+    if (this.streamFrame) return;
+    this.streamFrame = window.setTimeout(() => requestAnimationFrame(() => {
+      const started = performance.now();
+      this.rebuildTree();
+      this.render();
+      this.streamRefreshMs = performance.now() - started;
+      this.streamFrame = 0;
+    }), this.streamRefreshMs * STREAM_REFRESH_DELAY_FACTOR);
+  }
+
+  /**
+   * Merge the batches received by `appendSpans` into the loaded data.
+   */
+  private flushPendingSpans(): void {
+    if (this.pendingSpans.length === 0) return;
+    this._traceData = mergeTraceData(this._traceData ? [this._traceData, ...this.pendingSpans] : this.pendingSpans);
+    this.pendingSpans = [];
+  }
+
+  /**
+   * Subscribe to batches of spans, each appended with `appendSpans`: Server-Sent
+   * Events for http(s) URLs, WebSocket messages for ws(s) URLs. Messages are
+   * OTLP JSON (or any format `data-url` accepts); binary WebSocket messages are
+   * OTLP protobuf. An SSE `end` event closes the stream instead of letting the
+   * browser reconnect. A previously opened stream is closed.
+   */
+  openStream(url: string): void {
+    this.stream?.close();
+    this.stream = undefined;
+    let streamUrl: URL;
+    try {
+      streamUrl = new URL(url, document.baseURI);
+    } catch {
+      this.setStreamState({ status: 'error', message: `Invalid stream URL "${url}"` });
+      return;
+    }
+
+    const onMessage = (payload: string | ArrayBuffer) => {
+      try {
+        this.appendSpans(typeof payload === 'string'
+          ? toTraceData(JSON.parse(payload))
+          : toTraceData(decodeOtlpProtobuf(new Uint8Array(payload))));
+        if (this.streamState?.status !== 'live') this.setStreamState({ status: 'live' });
+      } catch (error) {
+        this.setStreamState({ status: 'error', message: error instanceof Error ? error.message : 'Invalid message' });
+      }
+    };
+
+    if (streamUrl.protocol === 'ws:' || streamUrl.protocol === 'wss:') {
+      const socket = new WebSocket(streamUrl);
+      socket.binaryType = 'arraybuffer';
+      socket.addEventListener('open', () => this.setStreamState({ status: 'live' }));
+      socket.addEventListener('message', (event) => onMessage(event.data));
+      socket.addEventListener('close', () => {
+        if (this.stream === socket) this.closeStream();
+      });
+      this.stream = socket;
+    } else {
+      const source = new EventSource(streamUrl);
+      source.addEventListener('open', () => this.setStreamState({ status: 'live' }));
+      source.addEventListener('message', (event) => onMessage(event.data));
+      source.addEventListener('end', () => this.closeStream());
+      source.addEventListener('error', () => {
+        // EventSource reconnects by itself unless the server refused the stream
+        if (source.readyState === EventSource.CLOSED) {
+          this.closeStream();
+        } else {
+          this.setStreamState({ status: 'connecting' });
+        }
+      });
+      this.stream = source;
+    }
+    this.setStreamState({ status: 'connecting' });
+  }
+
+  /**
+   * Stop receiving spans from the stream opened by `stream-url` or `openStream`.
+   * Spans received so far stay loaded.
+   */
+  closeStream(): void {
+    if (!this.stream) return;
+    this.stream.close();
+    this.stream = undefined;
+    this.setStreamState({ status: 'closed' });
+  }
+
+  private setStreamState(state: StreamState): void {
+    this.streamState = state;
+    const badge = this.shadow.querySelector('.stream-status');
+    if (badge) {
+      badge.outerHTML = Template.getStreamStatusMarkup(state);
+    } else if (this.isConnected && this._tree.roots.length > 0) {
+      this.render();
+    }
+  }
+
+  /**
+   * Open the trace with the given ID in the waterfall, or return to the trace list
+   * when called without an ID.
+   */
+  selectTrace(traceId?: string): void {
+    this.selectedTraceId = traceId;
+    this.selectedSpanId = undefined;
+    this.focusedSpanId = undefined;
+    this.highlight = undefined;
+    this.flameZoomSpanId = undefined;
+    this.dependencyFilter = undefined;
+    this.zoomLevel = 1;
+    this.panOffset = 0;
+    this.render();
+
+    if (traceId) {
+      this.dispatchEvent(new CustomEvent('trace-selected', {
+        detail: { traceId },
+        bubbles: true,
+        composed: true
+      }));
+    }
+  }
+
+  /**
+   * Select a loaded span, switching traces and expanding collapsed ancestors as needed.
+   * Returns false when the span is not part of the loaded data.
+   */
+  selectSpan(traceId: string, spanId: string): boolean {
+    const trace = this._traces.find(candidate => candidate.roots[0].traceId === traceId);
+    const span = trace?.getSpan(spanId);
+    if (!trace || !span || trace.isPlaceholder(spanId)) return false;
+
+    if (trace !== this.currentTrace()) {
+      this.selectedTraceId = traceId;
+      this.zoomLevel = 1;
+      this.panOffset = 0;
+    }
+    for (const ancestor of trace.getAncestors(spanId)) {
+      this.collapsed.delete(ancestor.spanId);
+    }
+    this.selectedSpanId = spanId;
+    this.focusedSpanId = spanId;
+    this.render();
+    this.scrollToSpan(spanId);
+
+    this.dispatchEvent(new CustomEvent('span-selected', {
+      detail: { span },
+      bubbles: true,
+      composed: true
+    }));
+    return true;
+  }
+
   /**
    * Set visualization configuration
    */
@@ -85,7 +349,98 @@ export class TraceVisualizerElement extends HTMLElement {
   }
 
   /**
-   * Load trace data from URL
+   * The waterfall of the open trace as a standalone SVG document. Every row is
+   * drawn, not only the ones on screen, using the current zoom level, collapsed
+   * rows, search and service filters, highlight, critical path and colours.
+   * The image always uses the light theme, so it prints and embeds legibly.
+   */
+  exportSVG(): string {
+    const trace = this.currentTrace();
+    if (!trace) {
+      throw new Error('No trace is open');
+    }
+    const timelineContainer = this.shadow.querySelector('.timeline-container') as HTMLElement | null;
+    return Template.getTraceSvgMarkup(trace, this.rows, this.resolveConfig(), {
+      timelineWidth: timelineContainer?.clientWidth || DEFAULT_EXPORT_TIMELINE_WIDTH,
+      zoomLevel: this.zoomLevel,
+      showCriticalPath: this.showCriticalPath,
+      highlightIds: this.highlightIds,
+    });
+  }
+
+  /**
+   * The image of `exportSVG()` rasterized to PNG, at the device pixel ratio by default.
+   */
+  async exportPNG(scale: number = window.devicePixelRatio || 1): Promise<Blob> {
+    const url = URL.createObjectURL(new Blob([this.exportSVG()], { type: 'image/svg+xml' }));
+    try {
+      const image = new Image();
+      image.src = url;
+      await image.decode();
+
+      const canvas = document.createElement('canvas');
+      canvas.width = Math.ceil(image.naturalWidth * scale);
+      canvas.height = Math.ceil(image.naturalHeight * scale);
+      const context = canvas.getContext('2d');
+      if (!context) {
+        throw new Error('Canvas is not available');
+      }
+      context.drawImage(image, 0, 0, canvas.width, canvas.height);
+
+      return await new Promise<Blob>((resolve, reject) => {
+        // Browsers return no blob when the canvas exceeds their size limit
+        canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('The trace is too large to export as PNG'))), 'image/png');
+      });
+    } finally {
+      URL.revokeObjectURL(url);
+    }
+  }
+
+  /**
+   * A self-contained HTML page with the loaded data and this component's code,
+   * which opens offline on the trace, tab and settings currently shown.
+   *
+   * The code is read back from the module this component was loaded from, which
+   * only works when that is the standalone `dist/index.js` bundle served over
+   * http(s) from a CORS-enabled origin. Applications bundling the library
+   * themselves pass the standalone bundle's source or URL instead.
+   */
+  async exportHTML(bundle: { source?: string; url?: string | URL } = {}): Promise<string> {
+    // A page exported earlier carries the component inline; otherwise read back the loaded module
+    let source = bundle.source ?? document.getElementById('trace-visualizer-source')?.textContent;
+    if (!source) {
+      const url = bundle.url ?? import.meta.url;
+      const response = await fetch(url).catch(() => {
+        throw new Error(`Failed to load the component code from ${url}`);
+      });
+      if (!response.ok) {
+        throw new Error(`Failed to load the component code: ${response.statusText}`);
+      }
+      source = await response.text();
+    }
+    if (!/customElements\.define\(\s*["'`]trace-visualizer["'`]/.test(source)) {
+      throw new Error('The component code is not the standalone trace-visualizer bundle');
+    }
+
+    this.flushPendingSpans();
+    const traceId = this.currentTrace()?.roots[0]?.traceId;
+    const theme = this.getAttribute('theme');
+    return Template.getStandaloneHtmlMarkup(traceId ? `Trace ${traceId}` : 'Traces', source.replace(/\/\/# sourceMappingURL=\S+\s*$/, ''), {
+      traceData: this._traceData,
+      logsData: this._logsData,
+      config: this._overrides,
+      traceId: this.selectedTraceId,
+      view: this.viewMode,
+      theme: theme === 'light' || theme === 'dark' || theme === 'auto' ? theme : undefined,
+    });
+  }
+
+  /**
+   * Load trace data from URL.
+   * OTLP logs (a payload with `resourceLogs`), Zipkin v2 spans (a JSON array)
+   * and Jaeger JSON (`data[].spans`) are converted to traces. OTLP protobuf is
+   * decoded when the response's content type says so or `data-format="protobuf"` is set;
+   * NDJSON (`data-format="ndjson"`) batches are merged. Gzipped bodies are decompressed.
    */
   async loadTraceData(url: string): Promise<void> {
     try {
@@ -94,13 +449,51 @@ export class TraceVisualizerElement extends HTMLElement {
       if (!response.ok) {
         throw new Error(`Failed to load: ${response.statusText}`);
       }
-      const data = await response.json();
-      this.traceData = data;
+      this.traceData = await readTraceData(response, this.getAttribute('data-format'));
     } catch (error) {
       this.shadow.innerHTML = Template.getErrorMarkup(error instanceof Error ? error.message : 'Failed to load trace data');
     }
   }
 
+  /**
+   * Load OTLP log data from URL, JSON or protobuf
+   */
+  async loadLogsData(url: string): Promise<void> {
+    try {
+      this.shadow.innerHTML = Template.getLoadingMarkup();
+      const response = await fetch(url);
+      if (!response.ok) {
+        throw new Error(`Failed to load: ${response.statusText}`);
+      }
+      this.logsData = await readLogsData(response, this.getAttribute('data-format'));
+    } catch (error) {
+      this.shadow.innerHTML = Template.getErrorMarkup(error instanceof Error ? error.message : 'Failed to load log data');
+    }
+  }
+
+  private rebuildTree(): void {
+    this.flushPendingSpans();
+    if (this._traceData) {
+      this._tree = TraceTree.build(this._traceData, this._logsData);
+    } else if (this._logsData) {
+      this._tree = TraceTree.fromLogs(this._logsData);
+    }
+
+    this._traces = this._tree.splitByTrace()
+      .map(trace => (this.adjustClockSkew ? trace.withClockSkewCorrection() : trace));
+    if (!this._traces.some(trace => trace.roots[0].traceId === this.selectedTraceId)) {
+      this.selectedTraceId = undefined;
+    }
+  }
+
+  /**
+   * The trace shown in the waterfall: the selected one, or the only one loaded.
+   */
+  private currentTrace(): TraceTree | undefined {
+    if (this._traces.length === 1) return this._traces[0];
+    return this._traces.find(trace => trace.roots[0].traceId === this.selectedTraceId);
+  }
+
   // ---------------------------------------------------------------------------
   // Config
   // ---------------------------------------------------------------------------
@@ -111,6 +504,7 @@ export class TraceVisualizerElement extends HTMLElement {
     const showLegend = this.getAttribute('show-legend');
     const fullWidth = this.getAttribute('full-width');
     const detailPanelWidth = this.getAttribute('detail-panel-width');
+    const colorBy = this.getAttribute('color-by');
 
     this._overrides = {
       ...this._overrides,
@@ -119,6 +513,10 @@ export class TraceVisualizerElement extends HTMLElement {
       showLegend: showLegend !== null && showLegend !== 'false',
       fullWidth: fullWidth !== null && fullWidth !== 'false',
       detailPanelWidth: detailPanelWidth || undefined,
+      // A colour function set through `config` is kept while the attribute is absent
+      colorBy: colorBy === 'kind' || colorBy === 'service' || colorBy === 'status' || colorBy?.startsWith('attribute:')
+        ? colorBy as ColorBy
+        : typeof this._overrides.colorBy === 'function' ? this._overrides.colorBy : undefined,
     };
   }
 
@@ -135,21 +533,243 @@ export class TraceVisualizerElement extends HTMLElement {
     this.classList.toggle('full-width', config.fullWidth);
 
     if (this._tree.roots.length === 0) {
-      this.shadow.innerHTML = Template.getEmptyMarkup();
+      this.shadow.innerHTML = this.stream
+        ? Template.getLoadingMarkup()
+        : this.streamState?.status === 'error'
+          ? Template.getErrorMarkup(this.streamState.message ?? 'Stream failed')
+          : Template.getEmptyMarkup();
+      return;
+    }
+
+    const trace = this.currentTrace();
+    if (!trace) {
+      this.renderTraceList(config);
       return;
     }
 
     try {
-      this.shadow.innerHTML = Template.getTraceMarkup(this._tree, config);
-      this.attachEventListeners(this._tree);
+      const activeInput = this.shadow.activeElement as HTMLInputElement | null;
+      const restoreSearchFocus = activeInput?.classList.contains('trace-search-input') ?? false;
+      const caret = restoreSearchFocus ? activeInput!.selectionStart : null;
+      const restoreChartFocus = activeInput?.classList.contains('trace-chart') ?? false;
+      const scrollPositions = SCROLL_CONTAINERS.map(selector => {
+        const element = this.shadow.querySelector(selector);
+        return { selector, top: element?.scrollTop ?? 0, left: element?.scrollLeft ?? 0 };
+      });
+
+      this.searchMatches = this.findSearchMatches(trace);
+      const matchIds = new Set(this.searchMatches.map(span => span.spanId));
+      const flatSpans = trace.flatten(this.collapsed);
+      const dependencyIds = this.findDependencySpanIds(trace);
+      this.rows = this.hideNonMatching && this.searchMatches.length > 0
+        ? flatSpans.filter(({ span }) => matchIds.has(span.spanId))
+        : flatSpans;
+      if (dependencyIds) {
+        this.rows = this.rows.filter(({ span }) => dependencyIds.has(span.spanId));
+      }
+      this.rowIndexOf = new Map(this.rows.map(({ span }, index) => [span.spanId, index]));
+      this.linkConnectors = this.findLinkConnectors();
+      this.highlightIds = new Set(this.findHighlightedSpans(trace).map(span => span.spanId));
+
+      this.shadow.innerHTML = Template.getTraceMarkup(trace, config, {
+        showTraceListLink: this._traces.length > 1,
+        flatSpans: this.rows,
+        searchQuery: this.searchQuery,
+        hideNonMatching: this.hideNonMatching,
+        collapseDepth: this.collapseDepth,
+        mode: this.viewMode,
+        breakdown: this.breakdown,
+        highlightLabel: this.highlight
+          ? `${this.highlight.serviceName}${this.highlight.name !== undefined ? ` / ${this.highlight.name}` : ''} (${this.highlightIds.size} spans)`
+          : undefined,
+        flameZoomSpanId: this.flameZoomSpanId,
+        dependencyFilter: this.dependencyFilter,
+        stream: this.streamState,
+      });
+      this.attachEventListeners(trace);
+      this.attachViewListeners(trace);
+      this.attachFlameListeners(trace);
+      this.attachGraphListeners(trace);
+      this.attachSearchListeners(trace);
+      this.attachTreeListeners(trace);
+      this.attachKeyboardListeners(trace);
       this.attachZoomPanListeners();
       this.observeTimelineResize();
-      this.recalculateTimelineTicks();
+      this.updateZoomPan();
+      this.renderVisibleRows(true);
+      if (this.selectedSpanId) {
+        this.showSpanDetail(trace, this.selectedSpanId);
+      }
+      for (const { selector, top, left } of scrollPositions) {
+        const element = this.shadow.querySelector(selector);
+        if (element) {
+          element.scrollTop = top;
+          element.scrollLeft = left;
+        }
+      }
+
+      if (restoreSearchFocus) {
+        const input = this.shadow.querySelector('.trace-search-input') as HTMLInputElement;
+        input.focus();
+        input.setSelectionRange(caret, caret);
+      }
+      if (restoreChartFocus) {
+        (this.shadow.querySelector('.trace-chart') as HTMLElement).focus({ preventScroll: true });
+      }
     } catch (error) {
       this.shadow.innerHTML = Template.getErrorMarkup(error instanceof Error ? error.message : 'Rendering failed');
     }
   }
 
+  private onViewportChange = (): void => {
+    if (this.windowFrame) return;
+    this.windowFrame = requestAnimationFrame(() => {
+      this.windowFrame = 0;
+      this.renderVisibleRows();
+    });
+  };
+
+  /**
+   * Render the rows intersecting the viewport, plus some overscan, into the
+   * labels and timeline containers. Nothing is re-rendered while the visible rows
+   * stay within the rendered window, unless `force` is set. When `includeIndex`
+   * is given, the window is moved so that the row is rendered even if off-screen.
+   */
+  private renderVisibleRows(force: boolean = false, includeIndex?: number): void {
+    const chart = this.shadow.querySelector('.trace-chart') as HTMLElement;
+    const labels = this.shadow.querySelector('.span-labels-container') as HTMLElement;
+    const spanRows = this.shadow.querySelector('.span-rows') as HTMLElement;
+    const linkLayer = this.shadow.querySelector('.link-layer');
+    const trace = this.currentTrace();
+    if (!chart || !labels || !spanRows || !trace) return;
+
+    const config = this.resolveConfig();
+    const rowHeight = config.spanHeight + config.spanPadding;
+    const rect = chart.getBoundingClientRect();
+    const viewportTop = Math.max(0, -rect.top);
+    const viewportBottom = Math.max(viewportTop, Math.min(rect.height, window.innerHeight - rect.top));
+
+    let first = Math.max(0, Math.floor((viewportTop - 50) / rowHeight));
+    let last = Math.min(this.rows.length, Math.ceil((viewportBottom - 50) / rowHeight));
+    if (includeIndex !== undefined && (includeIndex < first || includeIndex >= last)) {
+      const count = Math.max(last - first, OVERSCAN_ROWS);
+      first = Math.max(0, includeIndex - Math.floor(count / 2));
+      last = Math.min(this.rows.length, first + count);
+    }
+
+    const { start: renderedStart, end: renderedEnd } = this.renderedRows;
+    if (!force && first >= renderedStart && last <= renderedEnd) return;
+
+    const start = Math.max(0, first - OVERSCAN_ROWS);
+    const end = Math.min(this.rows.length, last + OVERSCAN_ROWS);
+    const visible = this.rows.slice(start, end);
+    labels.innerHTML = Template.getSpanLabelsMarkup(trace, visible, config, this.collapsed, start);
+    spanRows.innerHTML = Template.getSpansMarkup(trace, visible, trace.getTimeRange(), config, start);
+    if (linkLayer) {
+      linkLayer.innerHTML = Template.getLinkConnectorsMarkup(this.rows, this.linkConnectors, { start, end }, trace.getTimeRange(), config);
+    }
+    this.renderedRows = { start, end };
+    this.decorateRows();
+  }
+
+  /**
+   * Links between two rows of the waterfall, drawn as connectors while either row is rendered.
+   */
+  private findLinkConnectors(): LinkConnector[] {
+    const connectors: LinkConnector[] = [];
+    this.rows.forEach(({ span }, sourceIndex) => {
+      for (const link of span.links ?? []) {
+        const targetIndex = this.rowIndexOf.get(link.spanId);
+        if (targetIndex === undefined || this.rows[targetIndex].span.traceId !== link.traceId) continue;
+        connectors.push({ sourceIndex, targetIndex, link });
+      }
+    });
+    return connectors;
+  }
+
+  /**
+   * Apply selection, keyboard focus, highlight and search state to the rendered rows.
+   */
+  private decorateRows(): void {
+    const chart = this.shadow.querySelector('.trace-chart');
+    let activeDescendant: string | undefined;
+
+    this.shadow.querySelector('.trace-viewer')?.classList.toggle('highlight-active', this.highlight !== undefined);
+    this.shadow.querySelectorAll('.span-row[data-span-id], .span-label-fixed[data-span-id], .flame-node[data-span-id]').forEach(element => {
+      const spanId = element.getAttribute('data-span-id')!;
+      const selected = spanId === this.selectedSpanId;
+      const focused = spanId === this.focusedSpanId;
+      element.classList.toggle('selected', selected);
+      element.classList.toggle('focused', focused);
+      element.classList.toggle('highlighted', this.highlightIds.has(spanId));
+      if (element.getAttribute('role') === 'row') {
+        element.setAttribute('aria-selected', String(selected));
+        if (focused) activeDescendant = element.id;
+      }
+    });
+
+    if (activeDescendant) {
+      chart?.setAttribute('aria-activedescendant', activeDescendant);
+    } else {
+      chart?.removeAttribute('aria-activedescendant');
+    }
+    this.applySearchHighlight();
+  }
+
+  private renderTraceList(config: VisualizationConfig): void {
+    const summaries = this._traces.map(trace => trace.getSummary());
+    this.shadow.innerHTML = Template.getTraceListMarkup(summaries, this.traceListSort, this.traceListFilter, config);
+
+    const body = this.shadow.querySelector('.trace-list-body') as HTMLElement;
+    const updateRows = () => {
+      body.innerHTML = Template.getTraceListRowsMarkup(this.sortAndFilterTraces(summaries));
+    };
+    updateRows();
+
+    this.shadow.querySelector('.trace-list-filter')?.addEventListener('input', (event) => {
+      this.traceListFilter = (event.target as HTMLInputElement).value;
+      updateRows();
+    });
+
+    this.shadow.querySelectorAll('.trace-list th[data-sort]').forEach(header => {
+      header.addEventListener('click', () => {
+        const key = header.getAttribute('data-sort') as keyof TraceSummary;
+        this.traceListSort = {
+          key,
+          descending: this.traceListSort.key === key ? !this.traceListSort.descending : false,
+        };
+        this.renderTraceList(config);
+      });
+    });
+
+    body.addEventListener('click', (event) => {
+      const row = (event.target as HTMLElement).closest('.trace-list-row');
+      const traceId = row?.getAttribute('data-trace-id');
+      if (traceId) {
+        this.selectTrace(traceId);
+      }
+    });
+  }
+
+  private sortAndFilterTraces(summaries: TraceSummary[]): TraceSummary[] {
+    const filter = this.traceListFilter.trim().toLowerCase();
+    const { key, descending } = this.traceListSort;
+
+    return summaries
+      .filter(summary => !filter
+        || summary.traceId.toLowerCase().includes(filter)
+        || summary.rootName.toLowerCase().includes(filter)
+        || summary.serviceName.toLowerCase().includes(filter))
+      .sort((a, b) => {
+        const left = a[key];
+        const right = b[key];
+        const order = typeof left === 'string' && typeof right === 'string'
+          ? left.localeCompare(right)
+          : Number(left) - Number(right);
+        return descending ? -order : order;
+      });
+  }
+
   private observeTimelineResize(): void {
     const timelineClip = this.shadow.querySelector('.timeline-clip') as HTMLElement;
     if (!timelineClip) return;
@@ -161,9 +781,10 @@ export class TraceVisualizerElement extends HTMLElement {
   private recalculateTimelineTicks(): void {
     const timelineContainer = this.shadow.querySelector('.timeline-container') as HTMLElement;
     const timelineOverlay = this.shadow.querySelector('.timeline-overlay .timeline') as HTMLElement;
-    if (!timelineContainer || !timelineOverlay) return;
+    const trace = this.currentTrace();
+    if (!timelineContainer || !timelineOverlay || !trace) return;
 
-    const timeRange = this._tree.getTimeRange();
+    const timeRange = trace.getTimeRange();
     const containerWidth = timelineContainer.clientWidth;
     timelineOverlay.innerHTML = Template.getTimelineOverlayTicksMarkup(
       timeRange, containerWidth, this.zoomLevel, this.panOffset
@@ -175,35 +796,579 @@ export class TraceVisualizerElement extends HTMLElement {
   // ---------------------------------------------------------------------------
 
   private attachEventListeners(tree: TraceTree): void {
-    const spanBars = this.shadow.querySelectorAll('.span-bar');
-    const flatSpans = tree.flatten();
+    const closeBtn = this.shadow.querySelector('.detail-panel-close') as HTMLElement;
+
+    // Rows are re-rendered while scrolling, so clicks are handled by delegation
+    this.shadow.querySelector('.timeline-container')?.addEventListener('click', (event) => {
+      const target = event.target as Element;
+
+      const link = target.closest('.span-link-marker, .link-connector');
+      if (link) {
+        this.followLink(link.getAttribute('data-trace-id')!, link.getAttribute('data-span-id')!);
+        return;
+      }
+
+      const spanId = target.closest('.span-bar')?.getAttribute('data-span-id');
+      if (spanId) {
+        this.openSpan(tree, spanId);
+      }
+    });
+
+    const detailContent = this.shadow.querySelector('.detail-content') as HTMLElement;
+    detailContent?.addEventListener('click', (event) => {
+      const target = event.target as HTMLElement;
+
+      const linkNav = target.closest('.link-nav');
+      if (linkNav) {
+        this.followLink(linkNav.getAttribute('data-trace-id')!, linkNav.getAttribute('data-span-id')!);
+        return;
+      }
+
+      const copyBtn = target.closest('.copy-btn');
+      if (copyBtn) {
+        // The clipboard is unavailable in insecure contexts and may be denied or need focus
+        const text = copyBtn.getAttribute('data-copy') ?? '';
+        const written = navigator.clipboard ? navigator.clipboard.writeText(text) : Promise.reject(new Error('Clipboard unavailable'));
+        written.then(() => 'copied', () => 'copy-failed').then(state => {
+          copyBtn.classList.add(state);
+          setTimeout(() => copyBtn.classList.remove(state), 1000);
+        });
+        return;
+      }
+
+      const tab = target.closest('.detail-tab');
+      if (tab) {
+        this.detailTab = tab.getAttribute('data-tab') === 'json' ? 'json' : 'details';
+        detailContent.querySelectorAll('.detail-tab').forEach(element => {
+          const active = element === tab;
+          element.classList.toggle('active', active);
+          element.setAttribute('aria-selected', String(active));
+        });
+        detailContent.querySelectorAll('.detail-tab-panel').forEach(panel => {
+          (panel as HTMLElement).hidden = panel.getAttribute('data-tab') !== this.detailTab;
+        });
+      }
+    });
+
+    closeBtn?.addEventListener('click', () => {
+      this.closeSpanDetail();
+    });
+
+    this.shadow.querySelector('.trace-list-back')?.addEventListener('click', () => {
+      this.selectTrace();
+    });
+  }
+
+  /**
+   * Tabs, the clock skew toggle, the breakdown table and the highlight chip.
+   */
+  private attachViewListeners(tree: TraceTree): void {
+    this.shadow.querySelector('.view-tabs')?.addEventListener('click', (event) => {
+      const tab = (event.target as Element).closest('.view-tab');
+      if (!tab) return;
+      this.viewMode = tab.getAttribute('data-view') as TraceViewMode;
+      this.render();
+    });
+
+    this.shadow.querySelector('.highlight-clear')?.addEventListener('click', () => {
+      this.highlight = undefined;
+      this.render();
+    });
+
+    this.shadow.querySelector('.clock-skew-toggle')?.addEventListener('click', () => {
+      this.adjustClockSkew = !this.adjustClockSkew;
+      this.rebuildTree();
+      this.render();
+    });
+
+    this.shadow.querySelector('.dependency-filter-clear')?.addEventListener('click', () => {
+      this.dependencyFilter = undefined;
+      this.render();
+    });
+
+    const breakdown = this.shadow.querySelector('.breakdown');
+    if (!breakdown) return;
+
+    breakdown.addEventListener('click', (event) => {
+      const target = event.target as Element;
+
+      const header = target.closest('th[data-sort]');
+      if (header) {
+        const key = header.getAttribute('data-sort') as BreakdownViewOptions['sort']['key'];
+        this.breakdown.sort = {
+          key,
+          descending: this.breakdown.sort.key === key ? !this.breakdown.sort.descending : true,
+        };
+        this.render();
+        return;
+      }
+
+      const group = target.closest('.breakdown-group');
+      if (group) {
+        this.breakdown.groupBy = group.getAttribute('data-group-by') as BreakdownViewOptions['groupBy'];
+        if (this.breakdown.groupBy === 'service' && this.breakdown.sort.key === 'name') {
+          this.breakdown.sort = { key: 'selfMs', descending: true };
+        }
+        this.render();
+        return;
+      }
+
+      const row = target.closest('.breakdown-row');
+      if (row) {
+        this.highlightSpans(tree, row.getAttribute('data-service')!, row.getAttribute('data-name') ?? undefined);
+      }
+    });
+
+    breakdown.addEventListener('keydown', (event) => {
+      const row = (event.target as Element).closest('.breakdown-row');
+      if (row && (event as KeyboardEvent).key === 'Enter') {
+        this.highlightSpans(tree, row.getAttribute('data-service')!, row.getAttribute('data-name') ?? undefined);
+      }
+    });
+  }
+
+  /**
+   * Flame graph: click selects a span, double-click zooms to it.
+   */
+  private attachFlameListeners(tree: TraceTree): void {
+    const nodes = this.shadow.querySelector('.flame-nodes');
+    if (!nodes) return;
+
+    nodes.addEventListener('click', (event) => {
+      const spanId = (event.target as Element).closest('.flame-node')?.getAttribute('data-span-id');
+      if (spanId && !tree.isPlaceholder(spanId)) {
+        this.openSpan(tree, spanId);
+      }
+    });
+
+    nodes.addEventListener('dblclick', (event) => {
+      const spanId = (event.target as Element).closest('.flame-node')?.getAttribute('data-span-id');
+      if (spanId) {
+        this.zoomFlameTo(spanId);
+      }
+    });
+
+    this.shadow.querySelector('.flame-reset')?.addEventListener('click', () => {
+      this.zoomFlameTo(undefined);
+    });
+  }
+
+  /**
+   * Service graph: an edge filters the waterfall to the spans of those calls,
+   * a service highlights its spans.
+   */
+  private attachGraphListeners(tree: TraceTree): void {
+    const graph = this.shadow.querySelector('.service-graph-svg');
+    if (!graph) return;
+
+    const activate = (target: Element) => {
+      const edge = target.closest('.dependency-edge');
+      if (edge) {
+        this.filterToDependency(tree, edge.getAttribute('data-source')!, edge.getAttribute('data-target')!);
+        return true;
+      }
+      const node = target.closest('.dependency-node');
+      if (node) {
+        this.highlightSpans(tree, node.getAttribute('data-service')!);
+        return true;
+      }
+      return false;
+    };
+
+    graph.addEventListener('click', (event) => {
+      activate(event.target as Element);
+    });
+    graph.addEventListener('keydown', (event) => {
+      const key = (event as KeyboardEvent).key;
+      if ((key === 'Enter' || key === ' ') && activate(event.target as Element)) {
+        event.preventDefault();
+      }
+    });
+  }
+
+  /**
+   * Fit the flame graph to a span's interval, or to the whole trace.
+   */
+  private zoomFlameTo(spanId: string | undefined): void {
+    if (spanId === this.flameZoomSpanId) return;
+    this.flameZoomSpanId = spanId;
+    this.render();
+  }
+
+  /**
+   * Highlight the spans of a service (or of one operation) in the waterfall,
+   * expanding their collapsed ancestors and scrolling to the first one.
+   */
+  private highlightSpans(tree: TraceTree, serviceName: string, name?: string): void {
+    this.highlight = { serviceName, name };
+    this.dependencyFilter = undefined;
+    const matches = this.findHighlightedSpans(tree);
+    for (const span of matches) {
+      for (const ancestor of tree.getAncestors(span.spanId)) {
+        this.collapsed.delete(ancestor.spanId);
+      }
+    }
+    this.viewMode = 'waterfall';
+    this.render();
+    if (matches.length > 0) {
+      this.scrollToSpan(matches[0].spanId);
+    }
+  }
+
+  /**
+   * Show only the caller and called spans of one service-to-service call in
+   * the waterfall, expanding their collapsed ancestors.
+   */
+  private filterToDependency(tree: TraceTree, source: string, target: string): void {
+    this.dependencyFilter = { source, target };
+    this.highlight = undefined;
+    for (const spanId of this.findDependencySpanIds(tree) ?? []) {
+      for (const ancestor of tree.getAncestors(spanId)) {
+        this.collapsed.delete(ancestor.spanId);
+      }
+    }
+    this.viewMode = 'waterfall';
+    this.render();
+    if (this.rows.length > 0) {
+      this.scrollToSpan(this.rows[0].span.spanId);
+    }
+  }
+
+  private findDependencySpanIds(tree: TraceTree): Set<string> | undefined {
+    const filter = this.dependencyFilter;
+    if (!filter) return undefined;
+    const edge = tree.getServiceGraph().edges.find(e => e.source === filter.source && e.target === filter.target);
+    return new Set(edge?.spanIds);
+  }
+
+  private findHighlightedSpans(tree: TraceTree): Span[] {
+    const highlight = this.highlight;
+    if (!highlight) return [];
+    return tree.flatten()
+      .map(({ span }) => span)
+      .filter(span => !tree.isPlaceholder(span.spanId)
+        && (tree.serviceNameOf.get(span.spanId) || 'unknown-service') === highlight.serviceName
+        && (highlight.name === undefined || span.name === highlight.name));
+  }
+
+  /**
+   * Navigate to a linked span, or ask the host application to load it.
+   */
+  private followLink(traceId: string, spanId: string): void {
+    if (!this.selectSpan(traceId, spanId)) {
+      this.dispatchEvent(new CustomEvent('link-requested', {
+        detail: { traceId, spanId },
+        bubbles: true,
+        composed: true
+      }));
+    }
+  }
+
+  /**
+   * Select a span of the current trace, show its details and notify listeners.
+   */
+  private openSpan(tree: TraceTree, spanId: string): void {
+    const span = tree.getSpan(spanId);
+    if (!span) return;
+
+    this.selectedSpanId = span.spanId;
+    this.focusedSpanId = span.spanId;
+    this.showSpanDetail(tree, span.spanId);
+
+    this.dispatchEvent(new CustomEvent('span-selected', {
+      detail: { span },
+      bubbles: true,
+      composed: true
+    }));
+  }
+
+  private closeSpanDetail(): void {
+    this.selectedSpanId = undefined;
+    this.shadow.querySelector('.detail-panel')?.classList.remove('visible');
+    this.decorateRows();
+  }
+
+  private showSpanDetail(tree: TraceTree, spanId: string): void {
+    const span = tree.getSpan(spanId);
     const detailPanel = this.shadow.querySelector('.detail-panel') as HTMLElement;
     const detailContent = this.shadow.querySelector('.detail-content') as HTMLElement;
-    const closeBtn = this.shadow.querySelector('.detail-panel-close') as HTMLElement;
+    if (!span || !detailPanel || !detailContent) return;
+
+    detailContent.innerHTML = Template.getSpanDetailMarkup(tree, span, this.detailTab);
+    detailPanel.classList.add('visible');
+    this.decorateRows();
+  }
+
+  private attachTreeListeners(tree: TraceTree): void {
+    this.shadow.querySelector('.span-labels-container')?.addEventListener('click', (event) => {
+      const toggle = (event.target as Element).closest('.span-toggle');
+      if (!toggle) return;
 
-    spanBars.forEach(bar => {
-      bar.addEventListener('click', (event) => {
-        const spanId = (event.currentTarget as HTMLElement).getAttribute('data-span-id');
-        const entry = flatSpans.find(e => e.span.spanId === spanId);
+      const spanId = toggle.getAttribute('data-span-id')!;
+      if (!this.collapsed.delete(spanId)) {
+        this.collapsed.add(spanId);
+      }
+      this.render();
+    });
 
-        if (entry) {
-          detailContent.textContent = JSON.stringify(entry.span, null, 2);
-          detailPanel.classList.add('visible');
+    this.shadow.querySelector('.tree-expand-all')?.addEventListener('click', () => {
+      this.collapsed.clear();
+      this.render();
+    });
 
-          this.dispatchEvent(new CustomEvent('span-selected', {
-            detail: { span: entry.span },
-            bubbles: true,
-            composed: true
-          }));
+    const depthInput = this.shadow.querySelector('.tree-collapse-depth-input') as HTMLInputElement;
+    this.shadow.querySelector('.tree-collapse-depth')?.addEventListener('click', () => {
+      this.collapseDepth = Math.max(0, parseInt(depthInput?.value, 10) || 0);
+      this.collapsed.clear();
+      for (const { span, level } of tree.flatten()) {
+        if (level >= this.collapseDepth && tree.getDescendantCount(span.spanId) > 0) {
+          this.collapsed.add(span.spanId);
         }
-      });
+      }
+      this.render();
     });
 
-    closeBtn?.addEventListener('click', () => {
-      detailPanel.classList.remove('visible');
+    this.shadow.querySelector('.tree-expand-selected')?.addEventListener('click', () => {
+      if (!this.selectedSpanId) return;
+      for (const ancestor of tree.getAncestors(this.selectedSpanId)) {
+        this.collapsed.delete(ancestor.spanId);
+      }
+      this.render();
+      this.scrollToSpan(this.selectedSpanId);
+    });
+  }
+
+  /**
+   * Keyboard support. The chart is a single tab stop: arrow keys move the
+   * active row (exposed through aria-activedescendant), Left/Right collapse and
+   * expand, Enter opens the detail panel and Escape closes it. `+`, `-` and `0`
+   * zoom anywhere in the viewer (in the flame graph, `+` zooms to the selected
+   * span and `0` resets); Shift/Alt+Left/Right pan the timeline.
+   */
+  private attachKeyboardListeners(tree: TraceTree): void {
+    const traceViewer = this.shadow.querySelector('.trace-viewer') as HTMLElement;
+    const chart = this.shadow.querySelector('.trace-chart') as HTMLElement | null;
+    if (!traceViewer) return;
+
+    chart?.addEventListener('focus', () => {
+      if (this.focusedSpanId && this.rowIndexOf.has(this.focusedSpanId)) return;
+      const row = this.rows[this.rowIndexOf.get(this.selectedSpanId ?? '') ?? this.renderedRows.start];
+      this.focusedSpanId = row?.span.spanId;
+      this.decorateRows();
+    });
+
+    traceViewer.addEventListener('keydown', (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement;
+      if (e.key === 'Escape' && this.selectedSpanId) {
+        const fromPanel = target.closest('.detail-panel') !== null;
+        this.closeSpanDetail();
+        if (fromPanel) chart?.focus({ preventScroll: true });
+        e.preventDefault();
+        return;
+      }
+      if (target.closest('input, select, textarea') || e.ctrlKey || e.metaKey) return;
+
+      switch (e.key) {
+        case '+':
+        case '=':
+          if (this.viewMode === 'flame') {
+            this.zoomFlameTo(this.selectedSpanId);
+          } else {
+            this.zoomBy(1.2);
+          }
+          break;
+        case '-':
+        case '_':
+          if (this.viewMode === 'flame') {
+            // One level out: to the parent of the zoomed span, or the whole trace
+            const zoomed = this.flameZoomSpanId ? tree.getSpan(this.flameZoomSpanId) : undefined;
+            const parentId = zoomed?.parentSpanId;
+            this.zoomFlameTo(parentId && tree.getSpan(parentId) ? parentId : undefined);
+          } else {
+            this.zoomBy(0.8);
+          }
+          break;
+        case '0':
+          if (this.viewMode === 'flame') {
+            this.zoomFlameTo(undefined);
+          } else {
+            this.resetZoom();
+          }
+          break;
+        default:
+          if (target !== chart || !this.handleRowKey(tree, e)) return;
+      }
+      e.preventDefault();
     });
   }
 
+  /**
+   * Handle a navigation key pressed on the chart. Returns false for keys it ignores.
+   */
+  private handleRowKey(tree: TraceTree, e: KeyboardEvent): boolean {
+    if ((e.shiftKey || e.altKey) && (e.key === 'ArrowLeft' || e.key === 'ArrowRight')) {
+      this.panBy(e.key === 'ArrowLeft' ? KEYBOARD_PAN_STEP : -KEYBOARD_PAN_STEP);
+      return true;
+    }
+
+    const index = this.rowIndexOf.get(this.focusedSpanId ?? '') ?? -1;
+    const row = this.rows[index];
+    const hasChildren = row ? tree.getDescendantCount(row.span.spanId) > 0 : false;
+
+    switch (e.key) {
+      case 'ArrowDown':
+        this.focusRow(index + 1);
+        return true;
+      case 'ArrowUp':
+        this.focusRow(Math.max(0, index - 1));
+        return true;
+      case 'Home':
+        this.focusRow(0);
+        return true;
+      case 'End':
+        this.focusRow(this.rows.length - 1);
+        return true;
+      case 'ArrowRight':
+        if (!row) {
+          this.focusRow(0);
+        } else if (hasChildren && this.collapsed.has(row.span.spanId)) {
+          this.collapsed.delete(row.span.spanId);
+          this.render();
+        } else if (this.rows[index + 1]?.level > row.level) {
+          this.focusRow(index + 1);
+        }
+        return true;
+      case 'ArrowLeft':
+        if (!row) {
+          this.focusRow(0);
+        } else if (hasChildren && !this.collapsed.has(row.span.spanId)) {
+          this.collapsed.add(row.span.spanId);
+          this.render();
+        } else if (row.span.parentSpanId && this.rowIndexOf.has(row.span.parentSpanId)) {
+          this.focusRow(this.rowIndexOf.get(row.span.parentSpanId)!);
+        }
+        return true;
+      case 'Enter':
+      case ' ':
+        if (row && !tree.isPlaceholder(row.span.spanId)) {
+          this.openSpan(tree, row.span.spanId);
+        }
+        return true;
+      default:
+        return false;
+    }
+  }
+
+  /**
+   * Make a row the active keyboard row, rendering and scrolling it into view.
+   */
+  private focusRow(index: number): void {
+    const clamped = Math.max(0, Math.min(this.rows.length - 1, index));
+    const row = this.rows[clamped];
+    if (!row) return;
+
+    this.focusedSpanId = row.span.spanId;
+    this.renderVisibleRows(false, clamped);
+    this.decorateRows();
+    this.shadow.querySelector(`.span-label-fixed[data-span-id="${CSS.escape(row.span.spanId)}"]`)
+      ?.scrollIntoView({ block: 'nearest' });
+  }
+
+  private scrollToSpan(spanId: string): void {
+    const index = this.rowIndexOf.get(spanId);
+    if (index === undefined) return;
+
+    this.renderVisibleRows(false, index);
+    const label = this.shadow.querySelector(`.span-label-fixed[data-span-id="${CSS.escape(spanId)}"]`);
+    label?.scrollIntoView({ block: 'center', behavior: 'smooth' });
+  }
+
+  private attachSearchListeners(tree: TraceTree): void {
+    const input = this.shadow.querySelector('.trace-search-input') as HTMLInputElement;
+    if (!input) return;
+
+    input.addEventListener('input', () => {
+      this.searchQuery = input.value;
+      this.searchMatchIndex = -1;
+      if (this.hideNonMatching) {
+        this.render();
+      } else {
+        this.searchMatches = this.findSearchMatches(tree);
+        this.applySearchHighlight();
+      }
+    });
+
+    input.addEventListener('keydown', (e: KeyboardEvent) => {
+      if (e.key === 'Enter') {
+        this.jumpToMatch(tree, e.shiftKey ? -1 : 1);
+      }
+    });
+
+    this.shadow.querySelector('.trace-search-next')?.addEventListener('click', () => {
+      this.jumpToMatch(tree, 1);
+    });
+
+    this.shadow.querySelector('.trace-search-prev')?.addEventListener('click', () => {
+      this.jumpToMatch(tree, -1);
+    });
+
+    this.shadow.querySelector('.trace-search-hide-toggle')?.addEventListener('change', (event) => {
+      this.hideNonMatching = (event.target as HTMLInputElement).checked;
+      this.render();
+    });
+  }
+
+  private findSearchMatches(tree: TraceTree): Span[] {
+    const filter = SpanFilter.parse(this.searchQuery);
+    if (filter.isEmpty) return [];
+    return tree.flatten()
+      .map(({ span }) => span)
+      .filter(span => !tree.isPlaceholder(span.spanId) && filter.matches(span, tree));
+  }
+
+  private applySearchHighlight(): void {
+    const matches = this.searchMatches;
+    const traceViewer = this.shadow.querySelector('.trace-viewer');
+    const count = this.shadow.querySelector('.trace-search-count');
+    if (!traceViewer) return;
+
+    const active = this.searchQuery.trim().length > 0;
+    const matchIds = new Set(matches.map(span => span.spanId));
+    const currentId = matches[this.searchMatchIndex]?.spanId;
+
+    traceViewer.classList.toggle('search-active', active);
+    this.shadow.querySelectorAll('.span-row[data-span-id], .span-label-fixed[data-span-id]').forEach(element => {
+      const spanId = element.getAttribute('data-span-id')!;
+      element.classList.toggle('search-match', matchIds.has(spanId));
+      element.classList.toggle('search-current', spanId === currentId);
+    });
+
+    if (count) {
+      count.textContent = !active ? ''
+        : matches.length === 0 ? 'No matches'
+        : this.searchMatchIndex >= 0 ? `${this.searchMatchIndex + 1} / ${matches.length}`
+        : `${matches.length} matches`;
+    }
+  }
+
+  private jumpToMatch(tree: TraceTree, direction: 1 | -1): void {
+    const matches = this.searchMatches;
+    if (matches.length === 0) return;
+
+    this.searchMatchIndex = this.searchMatchIndex < 0 && direction < 0
+      ? matches.length - 1
+      : (this.searchMatchIndex + direction + matches.length) % matches.length;
+    const spanId = matches[this.searchMatchIndex].spanId;
+    const collapsedAncestors = tree.getAncestors(spanId).filter(ancestor => this.collapsed.has(ancestor.spanId));
+    if (collapsedAncestors.length > 0) {
+      collapsedAncestors.forEach(ancestor => this.collapsed.delete(ancestor.spanId));
+      this.render();
+    } else {
+      this.applySearchHighlight();
+    }
+    this.scrollToSpan(spanId);
+  }
+
   private attachZoomPanListeners(): void {
     const traceChart = this.shadow.querySelector('.trace-chart') as HTMLElement;
     const timelineContainer = this.shadow.querySelector('.timeline-container') as HTMLElement;
@@ -222,7 +1387,7 @@ export class TraceVisualizerElement extends HTMLElement {
     }, { passive: false });
 
     timelineContainer.addEventListener('mousedown', (e: MouseEvent) => {
-      if (e.button === 0 && !(e.target as HTMLElement).classList.contains('span-bar')) {
+      if (e.button === 0 && !(e.target as Element).closest('.span-bar, .link-connector')) {
         this.isPanning = true;
         this.panStartX = e.clientX;
         this.panStartOffset = this.panOffset;
@@ -254,9 +1419,7 @@ export class TraceVisualizerElement extends HTMLElement {
     });
 
     timelineContainer.addEventListener('dblclick', () => {
-      this.zoomLevel = 1;
-      this.panOffset = 0;
-      this.updateZoomPan();
+      this.resetZoom();
     });
 
     this.addZoomControls();
@@ -292,19 +1455,17 @@ export class TraceVisualizerElement extends HTMLElement {
 
     // Update timeline overlay ticks (outside scaled container)
     const timelineOverlay = this.shadow.querySelector('.timeline-overlay .timeline') as HTMLElement;
-    if (timelineOverlay && timelineContainer) {
-      const timeRange = this._tree.getTimeRange();
+    const trace = this.currentTrace();
+    if (timelineOverlay && timelineContainer && trace) {
+      const timeRange = trace.getTimeRange();
       const containerWidth = timelineContainer.clientWidth;
       timelineOverlay.innerHTML = Template.getTimelineOverlayTicksMarkup(
         timeRange, containerWidth, this.zoomLevel, this.panOffset
       );
     }
 
-    const durationLabels = this.shadow.querySelectorAll('.span-duration');
-    durationLabels.forEach(label => {
-      (label as HTMLElement).style.transform = `scaleX(${1 / this.zoomLevel})`;
-      (label as HTMLElement).style.transformOrigin = 'left center';
-    });
+    // Labels and markers inside the scaled container counter-scale via this property
+    timelineContainer?.style.setProperty('--inverse-zoom', String(1 / this.zoomLevel));
 
     const zoomDisplay = this.shadow.querySelector('.zoom-display') as HTMLElement;
     if (zoomDisplay) {
@@ -319,25 +1480,94 @@ export class TraceVisualizerElement extends HTMLElement {
     const config = this.resolveConfig();
     const controls = document.createElement('div');
     controls.className = 'zoom-controls';
-    controls.innerHTML = Template.getZoomControlsMarkup(config);
+    controls.setAttribute('part', 'zoom-controls');
+    controls.innerHTML = Template.getZoomControlsMarkup(config, this.showCriticalPath, this.currentTrace());
 
     traceViewer.appendChild(controls);
+    traceViewer.classList.toggle('critical-path-active', this.showCriticalPath);
+
+    controls.querySelector('.critical-path-toggle')?.addEventListener('click', (event) => {
+      this.showCriticalPath = !this.showCriticalPath;
+      const toggle = event.currentTarget as HTMLElement;
+      toggle.classList.toggle('active', this.showCriticalPath);
+      toggle.setAttribute('aria-pressed', String(this.showCriticalPath));
+      traceViewer.classList.toggle('critical-path-active', this.showCriticalPath);
+    });
 
     controls.querySelector('.zoom-in')?.addEventListener('click', () => {
-      this.zoomLevel = Math.min(10, this.zoomLevel * 1.2);
-      this.updateZoomPan();
+      this.zoomBy(1.2);
     });
 
     controls.querySelector('.zoom-out')?.addEventListener('click', () => {
-      this.zoomLevel = Math.max(1, this.zoomLevel * 0.8);
-      this.updateZoomPan();
+      this.zoomBy(0.8);
     });
 
     controls.querySelector('.zoom-reset')?.addEventListener('click', () => {
-      this.zoomLevel = 1;
-      this.panOffset = 0;
-      this.updateZoomPan();
+      this.resetZoom();
     });
+
+    const toggle = controls.querySelector('.download-toggle') as HTMLElement;
+    const options = controls.querySelector('.download-options') as HTMLElement;
+    const error = controls.querySelector('.download-error') as HTMLElement;
+    const setOpen = (open: boolean) => {
+      options.hidden = !open;
+      toggle.setAttribute('aria-expanded', String(open));
+      error.textContent = '';
+    };
+    toggle.addEventListener('click', () => setOpen(options.hidden));
+    controls.querySelector('.download-menu')?.addEventListener('keydown', (event) => {
+      if ((event as KeyboardEvent).key === 'Escape' && !options.hidden) {
+        setOpen(false);
+        toggle.focus();
+        event.stopPropagation();
+      }
+    });
+    options.addEventListener('click', (event) => {
+      const format = (event.target as Element).closest('.download-option')?.getAttribute('data-format') as ExportFormat | null;
+      if (!format) return;
+      this.download(format).then(() => setOpen(false), (reason) => {
+        error.textContent = reason instanceof Error ? reason.message : 'Export failed';
+      });
+    });
+  }
+
+  /**
+   * Save an export of the open trace through a temporary download link.
+   */
+  private async download(format: ExportFormat): Promise<void> {
+    const blob = format === 'png'
+      ? await this.exportPNG()
+      : format === 'svg'
+        ? new Blob([this.exportSVG()], { type: 'image/svg+xml' })
+        : new Blob([await this.exportHTML()], { type: 'text/html' });
+
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `trace-${this.currentTrace()?.roots[0]?.traceId ?? 'export'}.${format}`;
+    link.click();
+    setTimeout(() => URL.revokeObjectURL(url));
+  }
+
+  private zoomBy(factor: number): void {
+    this.zoomLevel = Math.max(1, Math.min(10, this.zoomLevel * factor));
+    this.updateZoomPan();
+  }
+
+  private resetZoom(): void {
+    this.zoomLevel = 1;
+    this.panOffset = 0;
+    this.updateZoomPan();
+  }
+
+  /**
+   * Pan the timeline by a share of its visible width (positive moves towards the start).
+   */
+  private panBy(fraction: number): void {
+    const timelineContainer = this.shadow.querySelector('.timeline-container') as HTMLElement;
+    if (!timelineContainer) return;
+    this.panOffset += timelineContainer.clientWidth * fraction;
+    this.updateZoomPan();
   }
 
 }
@@ -0,0 +1,181 @@
+import {
+  TraceData,
+  Span,
+  SpanKind,
+  Link,
+  Status,
+} from '../opentelemetry/trace.js';
+import { Resource } from '../opentelemetry/resource.js';
+import {
+  AnyValue,
+  InstrumentationScope,
+  KeyValue,
+} from '../opentelemetry/common.js';
+import { toResourceSpans } from './logs-to-trace.js';
+
+/**
+ * Jaeger tag or log field. `type` is one of string, bool, int64, float64 or binary.
+ */
+export interface JaegerTag {
+  key: string;
+  type?: string;
+  value: string | number | boolean;
+}
+
+export interface JaegerSpan {
+  traceID: string;
+  spanID: string;
+  operationName: string;
+  references?: Array<{ refType: 'CHILD_OF' | 'FOLLOWS_FROM'; traceID: string; spanID: string }>;
+  /** Microseconds since the epoch. */
+  startTime: number;
+  /** Microseconds. */
+  duration: number;
+  tags?: JaegerTag[];
+  logs?: Array<{ timestamp: number; fields: JaegerTag[] }>;
+  processID?: string;
+  /** Parent reference used by older Jaeger versions instead of `references`. */
+  parentSpanID?: string;
+  warnings?: string[] | null;
+}
+
+export interface JaegerTrace {
+  traceID: string;
+  spans: JaegerSpan[];
+  processes?: Record<string, { serviceName: string; tags?: JaegerTag[] }>;
+}
+
+/**
+ * Jaeger query API response, as downloaded from the Jaeger UI.
+ */
+export interface JaegerTraces {
+  data: JaegerTrace[];
+}
+
+const JAEGER_KINDS: Record<string, SpanKind> = {
+  internal: SpanKind.Internal,
+  server: SpanKind.Server,
+  client: SpanKind.Client,
+  producer: SpanKind.Producer,
+  consumer: SpanKind.Consumer,
+};
+
+/** Tags expressed by the span kind and status instead of attributes. */
+const MAPPED_TAGS = new Set(['span.kind', 'otel.status_code', 'otel.status_description']);
+
+/**
+ * Whether a parsed JSON payload is a Jaeger query API response.
+ */
+export function isJaegerTraces(data: unknown): data is JaegerTraces {
+  if (typeof data !== 'object' || data === null || !('data' in data)) return false;
+  const traces = (data as { data: unknown }).data;
+  return Array.isArray(traces) && traces.every(trace =>
+    typeof trace === 'object' && trace !== null && Array.isArray(trace.spans)
+  );
+}
+
+/**
+ * Convert Jaeger JSON traces into OTLP traces.
+ *
+ * The first `CHILD_OF` reference within the same trace is the parent of a span;
+ * `FOLLOWS_FROM`, cross-trace and any further references become links. Each Jaeger process becomes a resource with
+ * the process tags as attributes, span logs become events, and the kind and
+ * status are read from the `span.kind`, `error` and `otel.status_code` tags.
+ */
+export function jaegerToTraceData(jaegerTraces: JaegerTraces): TraceData {
+  const scope: InstrumentationScope = { name: 'jaeger' };
+  const unknownProcess: Resource = { attributes: [{ key: 'service.name', value: { stringValue: 'unknown-service' } }] };
+  const entries: Array<{ resource: Resource; scope: InstrumentationScope; span: Span }> = [];
+
+  for (const trace of jaegerTraces.data) {
+    const resources = new Map(Object.entries(trace.processes ?? {}).map(([processId, process]): [string, Resource] => [
+      processId,
+      {
+        attributes: [
+          { key: 'service.name', value: { stringValue: process.serviceName } },
+          ...(process.tags ?? []).map(toKeyValue),
+        ],
+      },
+    ]));
+
+    for (const jaegerSpan of trace.spans) {
+      entries.push({
+        resource: resources.get(jaegerSpan.processID ?? '') ?? unknownProcess,
+        scope,
+        span: spanFromJaeger(jaegerSpan),
+      });
+    }
+  }
+
+  return { resourceSpans: toResourceSpans(entries) };
+}
+
+function spanFromJaeger(jaegerSpan: JaegerSpan): Span {
+  const tags = jaegerSpan.tags ?? [];
+  const tagValue = (key: string) => tags.find(tag => tag.key === key)?.value;
+  const start = BigInt(Math.round(jaegerSpan.startTime)) * 1000n;
+  const end = start + BigInt(Math.round(jaegerSpan.duration)) * 1000n;
+
+  const references = jaegerSpan.references ?? [];
+  // A CHILD_OF reference into another trace cannot be the parent and is kept as a link
+  const parentRef = references.find(ref => ref.refType === 'CHILD_OF'
+    && ref.traceID.padStart(32, '0') === jaegerSpan.traceID.padStart(32, '0'));
+  const parentSpanId = parentRef?.spanID ?? jaegerSpan.parentSpanID;
+  const links: Link[] = references
+    .filter(ref => ref !== parentRef)
+    .map(ref => ({
+      traceId: ref.traceID.padStart(32, '0'),
+      spanId: ref.spanID.padStart(16, '0'),
+      attributes: [{ key: 'jaeger.ref_type', value: { stringValue: ref.refType } }],
+    }));
+
+  return {
+    traceId: jaegerSpan.traceID.padStart(32, '0'),
+    spanId: jaegerSpan.spanID.padStart(16, '0'),
+    parentSpanId: parentSpanId ? parentSpanId.padStart(16, '0') : undefined,
+    name: jaegerSpan.operationName,
+    kind: JAEGER_KINDS[String(tagValue('span.kind') ?? 'internal').toLowerCase()] ?? SpanKind.Unspecified,
+    startTimeUnixNano: start.toString(),
+    endTimeUnixNano: end.toString(),
+    attributes: tags.filter(tag => !MAPPED_TAGS.has(tag.key)).map(toKeyValue),
+    events: (jaegerSpan.logs ?? []).map(log => {
+      const nameField = log.fields.find(field => field.key === 'event') ?? log.fields.find(field => field.key === 'message');
+      return {
+        timeUnixNano: (BigInt(Math.round(log.timestamp)) * 1000n).toString(),
+        name: String(nameField?.value ?? 'log'),
+        attributes: log.fields.filter(field => field !== nameField).map(toKeyValue),
+      };
+    }),
+    links: links.length > 0 ? links : undefined,
+    status: statusOf(tagValue('error'), tagValue('otel.status_code'), tagValue('otel.status_description')),
+  };
+}
+
+function statusOf(
+  error: JaegerTag['value'] | undefined,
+  statusCode: JaegerTag['value'] | undefined,
+  description: JaegerTag['value'] | undefined,
+): Status {
+  if (error === true || error === 'true' || statusCode === 'ERROR') {
+    return { code: 2, message: description !== undefined ? String(description) : undefined };
+  }
+  return { code: statusCode === 'OK' ? 1 : 0 };
+}
+
+function toKeyValue(tag: JaegerTag): KeyValue {
+  return { key: tag.key, value: toAnyValue(tag) };
+}
+
+function toAnyValue(tag: JaegerTag): AnyValue {
+  switch (tag.type?.toLowerCase()) {
+    case 'bool': return { boolValue: tag.value === true || tag.value === 'true' };
+    case 'int64': return { intValue: typeof tag.value === 'number' ? tag.value : String(tag.value) };
+    case 'float64': return { doubleValue: Number(tag.value) };
+    case 'binary': return { bytesValue: String(tag.value) };
+  }
+  switch (typeof tag.value) {
+    case 'boolean': return { boolValue: tag.value };
+    case 'number': return Number.isInteger(tag.value) ? { intValue: tag.value } : { doubleValue: tag.value };
+    default: return { stringValue: String(tag.value) };
+  }
+}
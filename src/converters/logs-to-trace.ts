@@ -0,0 +1,135 @@
+import {
+  LogsData,
+  LogRecord,
+  SeverityNumber,
+} from '../opentelemetry/logs.js';
+import {
+  TraceData,
+  ResourceSpans,
+  ScopeSpans,
+  Span,
+  SpanKind,
+} from '../opentelemetry/trace.js';
+import { Resource } from '../opentelemetry/resource.js';
+import {
+  InstrumentationScope,
+  extractString,
+} from '../opentelemetry/common.js';
+
+/**
+ * Log records sharing one traceId/spanId pair, together with the
+ * resource and scope of the first record seen for that pair.
+ */
+interface CorrelatedRecords {
+  traceId: string;
+  spanId: string;
+  resource: Resource;
+  scope: InstrumentationScope;
+  records: LogRecord[];
+}
+
+/**
+ * Time of a log record, falling back to the observed time when the
+ * event time is unset (OTLP encodes "unknown" as 0).
+ */
+export function logRecordTime(record: LogRecord): string {
+  if (record.timeUnixNano && record.timeUnixNano !== '0') {
+    return record.timeUnixNano;
+  }
+  return record.observedTimeUnixNano || '0';
+}
+
+export function compareLogRecords(a: LogRecord, b: LogRecord): number {
+  const diff = BigInt(logRecordTime(a)) - BigInt(logRecordTime(b));
+  return diff < 0n ? -1 : diff > 0n ? 1 : 0;
+}
+
+/**
+ * Convert OTLP logs into OTLP traces.
+ *
+ * Records are grouped by their traceId/spanId pair; each group becomes one span
+ * whose start and end are the earliest and latest record times. The span keeps
+ * the resource (and therefore the service name) of the ResourceLogs it came from,
+ * and every record is attached to it as a span event, unless `recordsAsEvents`
+ * is false because the records are shown as correlated logs instead.
+ * Records without a trace context are ignored.
+ */
+export function logsToTraceData(logsData: LogsData, recordsAsEvents: boolean = true): TraceData {
+  const groups = new Map<string, CorrelatedRecords>();
+
+  for (const resourceLog of logsData.resourceLogs) {
+    for (const scopeLog of resourceLog.scopeLogs) {
+      for (const record of scopeLog.logRecords) {
+        if (!record.traceId || !record.spanId) continue;
+
+        const key = `${record.traceId}:${record.spanId}`;
+        let group = groups.get(key);
+        if (!group) {
+          group = {
+            traceId: record.traceId,
+            spanId: record.spanId,
+            resource: resourceLog.resource,
+            scope: scopeLog.scope,
+            records: [],
+          };
+          groups.set(key, group);
+        }
+        group.records.push(record);
+      }
+    }
+  }
+
+  return {
+    resourceSpans: toResourceSpans([...groups.values()].map(group => ({
+      resource: group.resource,
+      scope: group.scope,
+      span: spanFromRecords(group, recordsAsEvents),
+    }))),
+  };
+}
+
+/**
+ * Regroup derived spans by resource and scope, preserving OTLP nesting.
+ */
+export function toResourceSpans(
+  entries: Array<{ resource: Resource; scope: InstrumentationScope; span: Span }>
+): ResourceSpans[] {
+  const resourceSpans = new Map<Resource, Map<InstrumentationScope, Span[]>>();
+  for (const { resource, scope, span } of entries) {
+    const scopes = resourceSpans.get(resource) || new Map<InstrumentationScope, Span[]>();
+    const spans = scopes.get(scope) || [];
+    spans.push(span);
+    scopes.set(scope, spans);
+    resourceSpans.set(resource, scopes);
+  }
+
+  return [...resourceSpans].map(([resource, scopes]): ResourceSpans => ({
+    resource,
+    scopeSpans: [...scopes].map(([scope, spans]): ScopeSpans => ({ scope, spans })),
+  }));
+}
+
+function spanFromRecords(group: CorrelatedRecords, recordsAsEvents: boolean): Span {
+  const records = [...group.records].sort(compareLogRecords);
+  const first = records[0];
+  const last = records[records.length - 1];
+  const hasError = records.some(r => r.severityNumber >= SeverityNumber.SEVERITY_NUMBER_ERROR);
+
+  return {
+    traceId: group.traceId,
+    spanId: group.spanId,
+    name: first.eventName || extractString(first.body) || group.spanId,
+    kind: SpanKind.Internal,
+    startTimeUnixNano: logRecordTime(first),
+    endTimeUnixNano: logRecordTime(last),
+    attributes: [],
+    events: recordsAsEvents
+      ? records.map(record => ({
+        timeUnixNano: logRecordTime(record),
+        name: record.eventName || extractString(record.body) || record.severityText || 'log',
+        attributes: record.attributes,
+      }))
+      : [],
+    status: { code: hasError ? 2 : 0 },
+  };
+}
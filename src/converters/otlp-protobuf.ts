@@ -0,0 +1,399 @@
+import {
+  TraceData,
+  ResourceSpans,
+  ScopeSpans,
+  Span,
+  Event,
+  Link,
+  Status,
+} from '../opentelemetry/trace.js';
+import {
+  LogsData,
+  ResourceLogs,
+  ScopeLogs,
+  LogRecord,
+} from '../opentelemetry/logs.js';
+import { Resource } from '../opentelemetry/resource.js';
+import {
+  AnyValue,
+  InstrumentationScope,
+  KeyValue,
+} from '../opentelemetry/common.js';
+
+const WIRE_VARINT = 0;
+const WIRE_FIXED64 = 1;
+const WIRE_LENGTH_DELIMITED = 2;
+const WIRE_FIXED32 = 5;
+
+const textDecoder = new TextDecoder();
+
+/**
+ * Sequential reader over protobuf wire-format bytes.
+ */
+class ProtoReader {
+  private pos = 0;
+  private readonly view: DataView;
+
+  constructor(private readonly buffer: Uint8Array) {
+    this.view = new DataView(buffer.buffer, buffer.byteOffset, buffer.byteLength);
+  }
+
+  get done(): boolean {
+    return this.pos >= this.buffer.length;
+  }
+
+  tag(): { field: number; wireType: number } {
+    const key = this.uint();
+    return { field: Math.floor(key / 8), wireType: key % 8 };
+  }
+
+  /** Varint that fits in a double: tags, lengths, enums and counts. */
+  uint(): number {
+    let result = 0;
+    for (let shift = 0; ; shift += 7) {
+      const byte = this.byte();
+      result += (byte & 0x7f) * 2 ** shift;
+      if (!(byte & 0x80)) return result;
+    }
+  }
+
+  /** Signed 64-bit varint as a decimal string. */
+  int64(): string {
+    let result = 0n;
+    for (let shift = 0n; ; shift += 7n) {
+      const byte = this.byte();
+      result |= BigInt(byte & 0x7f) << shift;
+      if (!(byte & 0x80)) return BigInt.asIntN(64, result).toString();
+    }
+  }
+
+  bool(): boolean {
+    return this.uint() !== 0;
+  }
+
+  /** Unsigned fixed 64-bit integer as a decimal string. */
+  fixed64(): string {
+    const value = this.view.getBigUint64(this.advance(8), true);
+    return value.toString();
+  }
+
+  fixed32(): number {
+    return this.view.getUint32(this.advance(4), true);
+  }
+
+  double(): number {
+    return this.view.getFloat64(this.advance(8), true);
+  }
+
+  bytes(): Uint8Array {
+    const length = this.uint();
+    const start = this.advance(length);
+    return this.buffer.subarray(start, start + length);
+  }
+
+  string(): string {
+    return textDecoder.decode(this.bytes());
+  }
+
+  /** Reader over an embedded message. */
+  message(): ProtoReader {
+    return new ProtoReader(this.bytes());
+  }
+
+  skip(wireType: number): void {
+    switch (wireType) {
+      case WIRE_VARINT: this.uint(); break;
+      case WIRE_FIXED64: this.advance(8); break;
+      case WIRE_LENGTH_DELIMITED: this.advance(this.uint()); break;
+      case WIRE_FIXED32: this.advance(4); break;
+      default: throw new Error(`Unsupported protobuf wire type ${wireType}`);
+    }
+  }
+
+  private byte(): number {
+    return this.buffer[this.advance(1)];
+  }
+
+  private advance(length: number): number {
+    const start = this.pos;
+    if (start + length > this.buffer.length) {
+      throw new Error('Truncated protobuf payload');
+    }
+    this.pos += length;
+    return start;
+  }
+}
+
+/**
+ * Decode a binary OTLP `ExportTraceServiceRequest` or `TracesData` message.
+ * IDs are returned as lowercase hex and 64-bit timestamps as decimal strings,
+ * as in OTLP JSON.
+ */
+export function decodeTracesProtobuf(bytes: Uint8Array): TraceData {
+  const data: TraceData = { resourceSpans: [] };
+  readFields(new ProtoReader(bytes), {
+    1: reader => data.resourceSpans.push(readResourceSpans(reader.message())),
+  });
+  return data;
+}
+
+/**
+ * Decode a binary OTLP `ExportLogsServiceRequest` or `LogsData` message.
+ */
+export function decodeLogsProtobuf(bytes: Uint8Array): LogsData {
+  const data: LogsData = { resourceLogs: [] };
+  readFields(new ProtoReader(bytes), {
+    1: reader => data.resourceLogs.push(readResourceLogs(reader.message())),
+  });
+  return data;
+}
+
+/**
+ * Decode a binary OTLP traces or logs message. Both share the same outer
+ * layout, so the signal is told apart by the first record: a span always
+ * starts with its trace ID (bytes), a log record never does.
+ */
+export function decodeOtlpProtobuf(bytes: Uint8Array): TraceData | LogsData {
+  return isLogsMessage(bytes) ? decodeLogsProtobuf(bytes) : decodeTracesProtobuf(bytes);
+}
+
+function isLogsMessage(bytes: Uint8Array): boolean {
+  // Follow resource_* (1) -> scope_* (2) -> records (2) down to the first record
+  let reader = new ProtoReader(bytes);
+  for (const path of [1, 2, 2]) {
+    const nested = firstField(reader, path);
+    if (!nested) return false;
+    reader = nested;
+  }
+  if (reader.done) return false;
+  const { field, wireType } = reader.tag();
+  return !(field === 1 && wireType === WIRE_LENGTH_DELIMITED);
+}
+
+function firstField(reader: ProtoReader, field: number): ProtoReader | undefined {
+  while (!reader.done) {
+    const tag = reader.tag();
+    if (tag.field === field && tag.wireType === WIRE_LENGTH_DELIMITED) return reader.message();
+    reader.skip(tag.wireType);
+  }
+  return undefined;
+}
+
+/**
+ * Read every field of a message, dispatching known field numbers to their
+ * handler and skipping the rest.
+ */
+function readFields(reader: ProtoReader, handlers: Record<number, (reader: ProtoReader) => void>): void {
+  while (!reader.done) {
+    const { field, wireType } = reader.tag();
+    const handler = handlers[field];
+    if (handler) {
+      handler(reader);
+    } else {
+      reader.skip(wireType);
+    }
+  }
+}
+
+function toHex(bytes: Uint8Array): string {
+  let hex = '';
+  for (const byte of bytes) {
+    hex += byte.toString(16).padStart(2, '0');
+  }
+  return hex;
+}
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = '';
+  for (const byte of bytes) {
+    binary += String.fromCharCode(byte);
+  }
+  return btoa(binary);
+}
+
+// ---------------------------------------------------------------------------
+// Common messages
+// ---------------------------------------------------------------------------
+
+function readResource(reader: ProtoReader): Resource {
+  const resource: Resource = { attributes: [] };
+  readFields(reader, {
+    1: r => resource.attributes.push(readKeyValue(r.message())),
+    2: r => { resource.droppedAttributesCount = r.uint(); },
+  });
+  return resource;
+}
+
+function readScope(reader: ProtoReader): InstrumentationScope {
+  const scope: InstrumentationScope = { name: '' };
+  readFields(reader, {
+    1: r => { scope.name = r.string(); },
+    2: r => { scope.version = r.string(); },
+    3: r => (scope.attributes ??= []).push(readKeyValue(r.message())),
+    4: r => { scope.droppedAttributesCount = r.uint(); },
+  });
+  return scope;
+}
+
+function readKeyValue(reader: ProtoReader): KeyValue {
+  const keyValue: KeyValue = { key: '', value: {} };
+  readFields(reader, {
+    1: r => { keyValue.key = r.string(); },
+    2: r => { keyValue.value = readAnyValue(r.message()); },
+  });
+  return keyValue;
+}
+
+function readAnyValue(reader: ProtoReader): AnyValue {
+  const value: AnyValue = {};
+  readFields(reader, {
+    1: r => { value.stringValue = r.string(); },
+    2: r => { value.boolValue = r.bool(); },
+    3: r => { value.intValue = r.int64(); },
+    4: r => { value.doubleValue = r.double(); },
+    5: r => {
+      const values: AnyValue[] = [];
+      readFields(r.message(), { 1: item => values.push(readAnyValue(item.message())) });
+      value.arrayValue = { values };
+    },
+    6: r => {
+      const values: KeyValue[] = [];
+      readFields(r.message(), { 1: item => values.push(readKeyValue(item.message())) });
+      value.kvlistValue = { values };
+    },
+    7: r => { value.bytesValue = toBase64(r.bytes()); },
+  });
+  return value;
+}
+
+// ---------------------------------------------------------------------------
+// Traces
+// ---------------------------------------------------------------------------
+
+function readResourceSpans(reader: ProtoReader): ResourceSpans {
+  const resourceSpans: ResourceSpans = { resource: { attributes: [] }, scopeSpans: [] };
+  readFields(reader, {
+    1: r => { resourceSpans.resource = readResource(r.message()); },
+    2: r => resourceSpans.scopeSpans.push(readScopeSpans(r.message())),
+    3: r => { resourceSpans.schemaUrl = r.string(); },
+  });
+  return resourceSpans;
+}
+
+function readScopeSpans(reader: ProtoReader): ScopeSpans {
+  const scopeSpans: ScopeSpans = { scope: { name: '' }, spans: [] };
+  readFields(reader, {
+    1: r => { scopeSpans.scope = readScope(r.message()); },
+    2: r => scopeSpans.spans.push(readSpan(r.message())),
+    3: r => { scopeSpans.schemaUrl = r.string(); },
+  });
+  return scopeSpans;
+}
+
+function readSpan(reader: ProtoReader): Span {
+  const span: Span = {
+    traceId: '',
+    spanId: '',
+    name: '',
+    kind: 0,
+    startTimeUnixNano: '0',
+    endTimeUnixNano: '0',
+    attributes: [],
+  };
+  readFields(reader, {
+    1: r => { span.traceId = toHex(r.bytes()); },
+    2: r => { span.spanId = toHex(r.bytes()); },
+    3: r => { r.string(); }, // trace_state
+    4: r => { span.parentSpanId = toHex(r.bytes()) || undefined; },
+    5: r => { span.name = r.string(); },
+    6: r => { span.kind = r.uint(); },
+    7: r => { span.startTimeUnixNano = r.fixed64(); },
+    8: r => { span.endTimeUnixNano = r.fixed64(); },
+    9: r => span.attributes.push(readKeyValue(r.message())),
+    10: r => { span.droppedAttributesCount = r.uint(); },
+    11: r => (span.events ??= []).push(readEvent(r.message())),
+    12: r => { span.droppedEventsCount = r.uint(); },
+    13: r => (span.links ??= []).push(readLink(r.message())),
+    14: r => { span.droppedLinksCount = r.uint(); },
+    15: r => { span.status = readStatus(r.message()); },
+    16: r => { r.fixed32(); }, // flags
+  });
+  return span;
+}
+
+function readEvent(reader: ProtoReader): Event {
+  const event: Event = { timeUnixNano: '0', name: '', attributes: [] };
+  readFields(reader, {
+    1: r => { event.timeUnixNano = r.fixed64(); },
+    2: r => { event.name = r.string(); },
+    3: r => event.attributes.push(readKeyValue(r.message())),
+    4: r => { event.droppedAttributesCount = r.uint(); },
+  });
+  return event;
+}
+
+function readLink(reader: ProtoReader): Link {
+  const link: Link = { traceId: '', spanId: '' };
+  readFields(reader, {
+    1: r => { link.traceId = toHex(r.bytes()); },
+    2: r => { link.spanId = toHex(r.bytes()); },
+    4: r => (link.attributes ??= []).push(readKeyValue(r.message())),
+  });
+  return link;
+}
+
+function readStatus(reader: ProtoReader): Status {
+  const status: Status = { code: 0 };
+  readFields(reader, {
+    2: r => { status.message = r.string(); },
+    3: r => { status.code = r.uint(); },
+  });
+  return status;
+}
+
+// ---------------------------------------------------------------------------
+// Logs
+// ---------------------------------------------------------------------------
+
+function readResourceLogs(reader: ProtoReader): ResourceLogs {
+  const resourceLogs: ResourceLogs = { resource: { attributes: [] }, scopeLogs: [] };
+  readFields(reader, {
+    1: r => { resourceLogs.resource = readResource(r.message()); },
+    2: r => resourceLogs.scopeLogs.push(readScopeLogs(r.message())),
+    3: r => { resourceLogs.schemaUrl = r.string(); },
+  });
+  return resourceLogs;
+}
+
+function readScopeLogs(reader: ProtoReader): ScopeLogs {
+  const scopeLogs: ScopeLogs = { scope: { name: '' }, logRecords: [] };
+  readFields(reader, {
+    1: r => { scopeLogs.scope = readScope(r.message()); },
+    2: r => scopeLogs.logRecords.push(readLogRecord(r.message())),
+    3: r => { scopeLogs.schemaUrl = r.string(); },
+  });
+  return scopeLogs;
+}
+
+function readLogRecord(reader: ProtoReader): LogRecord {
+  const record: LogRecord = {
+    timeUnixNano: '0',
+    observedTimeUnixNano: '0',
+    severityNumber: 0,
+    attributes: [],
+  };
+  readFields(reader, {
+    1: r => { record.timeUnixNano = r.fixed64(); },
+    2: r => { record.severityNumber = r.uint(); },
+    3: r => { record.severityText = r.string(); },
+    5: r => { record.body = readAnyValue(r.message()); },
+    6: r => record.attributes.push(readKeyValue(r.message())),
+    7: r => { record.droppedAttributesCount = r.uint(); },
+    8: r => { record.flags = r.fixed32(); },
+    9: r => { record.traceId = toHex(r.bytes()) || undefined; },
+    10: r => { record.spanId = toHex(r.bytes()) || undefined; },
+    11: r => { record.observedTimeUnixNano = r.fixed64(); },
+    12: r => { record.eventName = r.string(); },
+  });
+  return record;
+}
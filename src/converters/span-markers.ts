@@ -0,0 +1,240 @@
+import {
+  LogsData,
+  LogRecord,
+  SeverityNumber,
+} from '../opentelemetry/logs.js';
+import {
+  TraceData,
+  Span,
+  SpanKind,
+} from '../opentelemetry/trace.js';
+import { Resource } from '../opentelemetry/resource.js';
+import {
+  InstrumentationScope,
+  KeyValue,
+  formatAnyValue,
+} from '../opentelemetry/common.js';
+import {
+  logRecordTime,
+  compareLogRecords,
+  toResourceSpans,
+} from './logs-to-trace.js';
+
+/** Attribute set to `true` on every span produced by `synthesizeSpans`. */
+export const SYNTHETIC_SPAN_ATTRIBUTE = 'log2trace.synthetic';
+
+/** Attribute set to `true` on synthetic spans whose end marker was never seen. */
+export const UNFINISHED_SPAN_ATTRIBUTE = 'log2trace.unfinished';
+
+/**
+ * Describes how a pair of "operation started"/"operation finished" log records
+ * is recognised and turned into a span.
+ */
+export interface SpanMarkerRule {
+  /** Attribute holding the marker value. When omitted, the record's `eventName` is used. */
+  markerAttribute?: string;
+  /** Marker value of the record that opens the operation. */
+  startValue: string;
+  /** Marker value of the record that closes the operation. */
+  endValue: string;
+  /** Attribute whose value identifies the operation on both the start and end record. */
+  correlationKey: string;
+  /** Attribute holding the correlation value of the enclosing operation. */
+  parentKey?: string;
+  /** Attribute providing the span name. Falls back to `name`, then to `startValue`. */
+  nameAttribute?: string;
+  /** Fixed span name used when `nameAttribute` is absent or unset. */
+  name?: string;
+  /** Kind of the synthesized spans. Defaults to Internal. */
+  kind?: SpanKind;
+}
+
+interface MarkerRecord {
+  rule: SpanMarkerRule;
+  record: LogRecord;
+  resource: Resource;
+  scope: InstrumentationScope;
+}
+
+interface SyntheticSpan {
+  correlation: string;
+  parentCorrelation?: string;
+  start: MarkerRecord;
+  span: Span;
+}
+
+export function isSyntheticSpan(span: Span): boolean {
+  return span.attributes.some(attr => attr.key === SYNTHETIC_SPAN_ATTRIBUTE && attr.value.boolValue === true);
+}
+
+/**
+ * Pair start/end marker log records into synthetic spans.
+ *
+ * Each rule's start record is matched with the earliest following end record
+ * that carries the same correlation value. Parentage comes from the rule's
+ * parent key, which must hold the correlation value of another operation;
+ * otherwise the span is parented to the real span the start record was
+ * logged in, if any. Span and trace IDs are derived from the correlation values
+ * so the same logs always produce the same tree.
+ */
+export function synthesizeSpans(logsData: LogsData, rules: SpanMarkerRule[]): TraceData {
+  const markers: MarkerRecord[] = [];
+  for (const resourceLog of logsData.resourceLogs) {
+    for (const scopeLog of resourceLog.scopeLogs) {
+      for (const record of scopeLog.logRecords) {
+        for (const rule of rules) {
+          const marker = markerValueOf(record, rule);
+          if (marker === rule.startValue || marker === rule.endValue) {
+            markers.push({ rule, record, resource: resourceLog.resource, scope: scopeLog.scope });
+            break;
+          }
+        }
+      }
+    }
+  }
+  markers.sort((a, b) => compareLogRecords(a.record, b.record));
+
+  const open = new Map<string, SyntheticSpan[]>();
+  const byCorrelation = new Map<string, SyntheticSpan[]>();
+  const synthetic: SyntheticSpan[] = [];
+
+  for (const marker of markers) {
+    const { rule, record } = marker;
+    const correlation = formatAnyValue(attributeOf(record, rule.correlationKey));
+    if (!correlation) continue;
+
+    const openKey = `${rules.indexOf(rule)}:${correlation}`;
+    if (markerValueOf(record, rule) === rule.startValue) {
+      const occurrences = byCorrelation.get(correlation) || [];
+      const entry: SyntheticSpan = {
+        correlation,
+        parentCorrelation: rule.parentKey ? formatAnyValue(attributeOf(record, rule.parentKey)) || undefined : undefined,
+        start: marker,
+        span: startSpan(marker, hashId(`${correlation}#${occurrences.length}`, 16)),
+      };
+      occurrences.push(entry);
+      byCorrelation.set(correlation, occurrences);
+      synthetic.push(entry);
+
+      const pending = open.get(openKey) || [];
+      pending.push(entry);
+      open.set(openKey, pending);
+    } else {
+      const entry = open.get(openKey)?.shift();
+      if (entry) finishSpan(entry, record);
+    }
+  }
+
+  for (const entry of synthetic) {
+    const parent = entry.parentCorrelation
+      ? latestStartedBefore(byCorrelation.get(entry.parentCorrelation), entry)
+      : undefined;
+    if (parent) {
+      entry.span.parentSpanId = parent.span.spanId;
+    } else if (entry.start.record.spanId) {
+      entry.span.parentSpanId = entry.start.record.spanId;
+    }
+  }
+
+  // Synthetic roots without a trace context get an ID derived from their correlation value;
+  // descendants inherit the trace ID of their nearest ancestor.
+  const bySpanId = new Map(synthetic.map(entry => [entry.span.spanId, entry]));
+  const resolveTraceId = (entry: SyntheticSpan, seen: Set<SyntheticSpan>): string => {
+    if (entry.span.traceId) return entry.span.traceId;
+    const parent = entry.span.parentSpanId ? bySpanId.get(entry.span.parentSpanId) : undefined;
+    seen.add(entry);
+    entry.span.traceId = parent && !seen.has(parent)
+      ? resolveTraceId(parent, seen)
+      : hashId(entry.correlation, 32);
+    return entry.span.traceId;
+  };
+  for (const entry of synthetic) {
+    resolveTraceId(entry, new Set());
+  }
+
+  return {
+    resourceSpans: toResourceSpans(synthetic.map(entry => ({
+      resource: entry.start.resource,
+      scope: entry.start.scope,
+      span: entry.span,
+    }))),
+  };
+}
+
+function markerValueOf(record: LogRecord, rule: SpanMarkerRule): string | undefined {
+  return rule.markerAttribute
+    ? formatAnyValue(attributeOf(record, rule.markerAttribute))
+    : record.eventName;
+}
+
+function attributeOf(record: LogRecord, key: string) {
+  return record.attributes.find(attr => attr.key === key)?.value;
+}
+
+function latestStartedBefore(candidates: SyntheticSpan[] | undefined, child: SyntheticSpan): SyntheticSpan | undefined {
+  if (!candidates) return undefined;
+  const childStart = BigInt(child.span.startTimeUnixNano);
+  let parent: SyntheticSpan | undefined;
+  for (const candidate of candidates) {
+    if (candidate !== child && BigInt(candidate.span.startTimeUnixNano) <= childStart) {
+      parent = candidate;
+    }
+  }
+  return parent;
+}
+
+function startSpan(marker: MarkerRecord, spanId: string): Span {
+  const { rule, record } = marker;
+  const name = (rule.nameAttribute && formatAnyValue(attributeOf(record, rule.nameAttribute)))
+    || rule.name
+    || rule.startValue;
+  const time = logRecordTime(record);
+
+  return {
+    traceId: record.traceId || '',
+    spanId,
+    name,
+    kind: rule.kind ?? SpanKind.Internal,
+    startTimeUnixNano: time,
+    endTimeUnixNano: time,
+    attributes: [
+      ...record.attributes,
+      { key: SYNTHETIC_SPAN_ATTRIBUTE, value: { boolValue: true } },
+      { key: UNFINISHED_SPAN_ATTRIBUTE, value: { boolValue: true } },
+    ],
+    status: { code: statusCodeOf(record) },
+  };
+}
+
+function finishSpan(entry: SyntheticSpan, end: LogRecord): void {
+  const span = entry.span;
+  const merged = new Map<string, KeyValue>(span.attributes.map(attr => [attr.key, attr]));
+  for (const attr of end.attributes) {
+    merged.set(attr.key, attr);
+  }
+  merged.delete(UNFINISHED_SPAN_ATTRIBUTE);
+
+  span.endTimeUnixNano = logRecordTime(end);
+  span.attributes = [...merged.values()];
+  span.status = { code: Math.max(span.status?.code ?? 0, statusCodeOf(end)) };
+}
+
+function statusCodeOf(record: LogRecord): number {
+  return record.severityNumber >= SeverityNumber.SEVERITY_NUMBER_ERROR ? 2 : 0;
+}
+
+/**
+ * Derive a stable hex identifier of the given length from a string (FNV-1a, 64-bit lanes).
+ */
+function hashId(value: string, length: 16 | 32): string {
+  let id = '';
+  for (let lane = 0n; id.length < length; lane++) {
+    let hash = 0xcbf29ce484222325n ^ lane;
+    for (let i = 0; i < value.length; i++) {
+      hash ^= BigInt(value.charCodeAt(i));
+      hash = (hash * 0x100000001b3n) & 0xffffffffffffffffn;
+    }
+    id += hash.toString(16).padStart(16, '0');
+  }
+  return id;
+}
@@ -0,0 +1,131 @@
+import { TraceData } from '../opentelemetry/trace.js';
+import { LogsData } from '../opentelemetry/logs.js';
+import { logsToTraceData } from './logs-to-trace.js';
+import { isZipkinSpans, zipkinToTraceData } from './zipkin-to-trace.js';
+import { isJaegerTraces, jaegerToTraceData } from './jaeger-to-trace.js';
+import { decodeOtlpProtobuf, decodeLogsProtobuf } from './otlp-protobuf.js';
+
+/**
+ * Encoding of a fetched payload, set with the `data-format` attribute.
+ * `ndjson` is one JSON payload per line, as written by the Collector `file` exporter.
+ */
+export type PayloadFormat = 'json' | 'ndjson' | 'protobuf';
+
+const PAYLOAD_FORMATS: PayloadFormat[] = ['json', 'ndjson', 'protobuf'];
+
+const textDecoder = new TextDecoder();
+
+/**
+ * Convert a parsed JSON payload in any supported format into OTLP traces:
+ *   - OTLP JSON traces (`resourceSpans`), returned as-is
+ *   - OTLP JSON logs (`resourceLogs`), converted with `logsToTraceData`
+ *   - Zipkin v2 spans (a JSON array, or an array of traces as returned by `/api/v2/traces`)
+ *   - Jaeger JSON (`data[].spans`, as downloaded from the Jaeger UI)
+ */
+export function toTraceData(payload: unknown): TraceData {
+  if (Array.isArray(payload)) {
+    const spans = payload.flat();
+    if (isZipkinSpans(spans)) return zipkinToTraceData(spans);
+  } else if (typeof payload === 'object' && payload !== null) {
+    if ('resourceSpans' in payload) return payload as TraceData;
+    if ('resourceLogs' in payload) return logsToTraceData(payload as LogsData);
+    if (isJaegerTraces(payload)) return jaegerToTraceData(payload);
+  }
+  throw new Error('Unrecognized trace data format');
+}
+
+/**
+ * Concatenate the resource spans of several batches, such as the lines of a
+ * Collector file export, into one payload. Spans repeated across batches are
+ * resolved by `TraceTree.build`.
+ */
+export function mergeTraceData(batches: TraceData[]): TraceData {
+  return { resourceSpans: batches.flatMap(batch => batch.resourceSpans) };
+}
+
+export function mergeLogsData(batches: LogsData[]): LogsData {
+  return { resourceLogs: batches.flatMap(batch => batch.resourceLogs) };
+}
+
+/**
+ * Payload format of a response: the explicit format when given, otherwise
+ * protobuf for `application/x-protobuf` (or `application/protobuf`) content,
+ * NDJSON for `application/x-ndjson` content or `.ndjson`/`.jsonl` URLs, and
+ * JSON for anything else.
+ */
+export function payloadFormatOf(response: Response, format?: string | null): PayloadFormat {
+  if (format) {
+    if (!PAYLOAD_FORMATS.includes(format as PayloadFormat)) {
+      throw new Error(`Unsupported data format "${format}"`);
+    }
+    return format as PayloadFormat;
+  }
+
+  const contentType = response.headers.get('content-type') ?? '';
+  if (/protobuf/i.test(contentType)) return 'protobuf';
+  if (/ndjson|jsonl/i.test(contentType) || /\.(ndjson|jsonl)(\.gz)?$/i.test(response.url.split(/[?#]/)[0])) {
+    return 'ndjson';
+  }
+  return 'json';
+}
+
+/**
+ * Read a fetched trace payload in any supported format. Gzip-compressed bodies
+ * are decompressed first, and NDJSON batches are merged into one payload.
+ */
+export async function readTraceData(response: Response, format?: string | null): Promise<TraceData> {
+  const resolved = payloadFormatOf(response, format);
+  const body = await readBody(response);
+  if (resolved === 'protobuf') {
+    return toTraceData(decodeOtlpProtobuf(body));
+  }
+  return mergeTraceData(parseJsonBatches(textDecoder.decode(body), resolved).map(toTraceData));
+}
+
+/**
+ * Read a fetched OTLP logs payload: JSON, NDJSON or protobuf, optionally gzip-compressed.
+ */
+export async function readLogsData(response: Response, format?: string | null): Promise<LogsData> {
+  const resolved = payloadFormatOf(response, format);
+  const body = await readBody(response);
+  if (resolved === 'protobuf') {
+    return decodeLogsProtobuf(body);
+  }
+  return mergeLogsData(parseJsonBatches(textDecoder.decode(body), resolved) as LogsData[]);
+}
+
+/**
+ * Response body as bytes, gunzipped when it starts with the gzip magic number.
+ * (Bodies sent with `Content-Encoding: gzip` are already decoded by the browser.)
+ */
+async function readBody(response: Response): Promise<Uint8Array> {
+  const bytes = new Uint8Array(await response.arrayBuffer());
+  if (bytes[0] !== 0x1f || bytes[1] !== 0x8b) {
+    return bytes;
+  }
+  const stream = new Blob([bytes]).stream().pipeThrough(new DecompressionStream('gzip'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+/**
+ * Parse a JSON document, or one JSON document per line. A `json` payload that
+ * fails to parse as a whole is retried line by line, since file exports are
+ * often saved with a `.json` extension.
+ */
+function parseJsonBatches(text: string, format: PayloadFormat): unknown[] {
+  if (format === 'json') {
+    try {
+      return [JSON.parse(text)];
+    } catch (error) {
+      if (!text.trim().includes('\n')) throw error;
+    }
+  }
+  return text.split('\n').flatMap((line, index) => {
+    if (line.trim() === '') return [];
+    try {
+      return [JSON.parse(line)];
+    } catch (error) {
+      throw new Error(`Invalid JSON on line ${index + 1}: ${error instanceof Error ? error.message : error}`);
+    }
+  });
+}
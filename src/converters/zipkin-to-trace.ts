@@ -0,0 +1,141 @@
+import {
+  TraceData,
+  Span,
+  SpanKind,
+} from '../opentelemetry/trace.js';
+import { Resource } from '../opentelemetry/resource.js';
+import {
+  InstrumentationScope,
+  KeyValue,
+} from '../opentelemetry/common.js';
+import { toResourceSpans } from './logs-to-trace.js';
+
+/**
+ * Zipkin v2 endpoint, as found in `localEndpoint` and `remoteEndpoint`.
+ */
+export interface ZipkinEndpoint {
+  serviceName?: string;
+  ipv4?: string;
+  ipv6?: string;
+  port?: number;
+}
+
+/**
+ * Zipkin v2 JSON span. Timestamps and durations are in microseconds.
+ */
+export interface ZipkinSpan {
+  traceId: string;
+  id: string;
+  parentId?: string;
+  name?: string;
+  kind?: 'CLIENT' | 'SERVER' | 'PRODUCER' | 'CONSUMER';
+  timestamp?: number;
+  duration?: number;
+  localEndpoint?: ZipkinEndpoint;
+  remoteEndpoint?: ZipkinEndpoint;
+  annotations?: Array<{ timestamp: number; value: string }>;
+  tags?: Record<string, string>;
+  debug?: boolean;
+  shared?: boolean;
+}
+
+const ZIPKIN_KINDS: Record<string, SpanKind> = {
+  CLIENT: SpanKind.Client,
+  SERVER: SpanKind.Server,
+  PRODUCER: SpanKind.Producer,
+  CONSUMER: SpanKind.Consumer,
+};
+
+/**
+ * Whether a parsed JSON payload is a list of Zipkin v2 spans.
+ */
+export function isZipkinSpans(data: unknown): data is ZipkinSpan[] {
+  return Array.isArray(data) && data.every(item =>
+    typeof item === 'object' && item !== null
+    && typeof item.traceId === 'string'
+    && typeof item.id === 'string'
+  );
+}
+
+/**
+ * Convert Zipkin v2 JSON spans into OTLP traces.
+ *
+ * Spans are grouped into one resource per `localEndpoint.serviceName`. Tags
+ * become string attributes and annotations become events; the `error` and
+ * `otel.status_code` tags set the span status. In Zipkin, the server side of
+ * an RPC may share its span ID with the client side (`shared: true`); such a
+ * span gets its own ID derived from the shared one and becomes the client
+ * span's child, as it would have been in OpenTelemetry; spans the server
+ * logged under the shared ID are moved under it.
+ */
+export function zipkinToTraceData(zipkinSpans: ZipkinSpan[]): TraceData {
+  const scope: InstrumentationScope = { name: 'zipkin' };
+  const resources = new Map<string, Resource>();
+  const unsharedIds = new Set(zipkinSpans.filter(span => !span.shared).map(span => span.id));
+  // Shared span ID -> service of its server half, whose local children must be re-parented too
+  const sharedServices = new Map(zipkinSpans
+    .filter(span => span.shared && unsharedIds.has(span.id))
+    .map(span => [span.id, span.localEndpoint?.serviceName || 'unknown-service']));
+
+  return {
+    resourceSpans: toResourceSpans(zipkinSpans.map(zipkinSpan => {
+      const serviceName = zipkinSpan.localEndpoint?.serviceName || 'unknown-service';
+      let resource = resources.get(serviceName);
+      if (!resource) {
+        resource = { attributes: [{ key: 'service.name', value: { stringValue: serviceName } }] };
+        resources.set(serviceName, resource);
+      }
+
+      const span = spanFromZipkin(zipkinSpan);
+      if (zipkinSpan.shared && sharedServices.has(zipkinSpan.id)) {
+        span.parentSpanId = span.spanId;
+        span.spanId = sharedSpanId(span.spanId);
+      } else if (zipkinSpan.parentId && sharedServices.get(zipkinSpan.parentId) === serviceName) {
+        span.parentSpanId = sharedSpanId(span.parentSpanId!);
+      }
+      return { resource, scope, span };
+    })),
+  };
+}
+
+function spanFromZipkin(zipkinSpan: ZipkinSpan): Span {
+  const tags = zipkinSpan.tags ?? {};
+  const start = BigInt(Math.round(zipkinSpan.timestamp ?? 0)) * 1000n;
+  const end = start + BigInt(Math.round(zipkinSpan.duration ?? 0)) * 1000n;
+
+  const attributes: KeyValue[] = Object.entries(tags)
+    .map(([key, value]) => ({ key, value: { stringValue: String(value) } }));
+  const remote = zipkinSpan.remoteEndpoint;
+  if (remote?.serviceName) attributes.push({ key: 'peer.service', value: { stringValue: remote.serviceName } });
+  if (remote?.ipv4 || remote?.ipv6) attributes.push({ key: 'network.peer.address', value: { stringValue: (remote.ipv4 || remote.ipv6)! } });
+  if (remote?.port) attributes.push({ key: 'network.peer.port', value: { intValue: remote.port } });
+
+  const statusCode = tags['otel.status_code'];
+  const status = 'error' in tags || statusCode === 'ERROR'
+    ? { code: 2, message: tags['error'] || tags['otel.status_description'] || undefined }
+    : { code: statusCode === 'OK' ? 1 : 0 };
+
+  return {
+    traceId: zipkinSpan.traceId.padStart(32, '0'),
+    spanId: zipkinSpan.id.padStart(16, '0'),
+    parentSpanId: zipkinSpan.parentId ? zipkinSpan.parentId.padStart(16, '0') : undefined,
+    name: zipkinSpan.name || 'unknown',
+    kind: zipkinSpan.kind ? ZIPKIN_KINDS[zipkinSpan.kind] ?? SpanKind.Unspecified : SpanKind.Internal,
+    startTimeUnixNano: start.toString(),
+    endTimeUnixNano: end.toString(),
+    attributes,
+    events: (zipkinSpan.annotations ?? []).map(annotation => ({
+      timeUnixNano: (BigInt(Math.round(annotation.timestamp)) * 1000n).toString(),
+      name: annotation.value,
+      attributes: [],
+    })),
+    status,
+  };
+}
+
+/**
+ * Stable ID for the server half of a shared Zipkin span: the shared ID with all bits flipped.
+ */
+function sharedSpanId(spanId: string): string {
+  return (BigInt(`0x${spanId}`) ^ 0xffffffffffffffffn).toString(16).padStart(16, '0');
+}
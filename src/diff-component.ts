@@ -0,0 +1,136 @@
+import { TraceData } from './opentelemetry/trace.js';
+import { readTraceData } from './converters/trace-payload.js';
+import { TraceTree } from './trace-tree.js';
+import { TraceDiff } from './trace-diff.js';
+import { Template } from './template.js';
+import { VisualizationConfig } from './visualization-config.js';
+import css from './styles.css';
+
+const styleSheet = new CSSStyleSheet();
+styleSheet.replaceSync(css);
+
+/**
+ * Web Component comparing two traces side by side
+ * Usage: <trace-diff before-url="./before.json" after-url="./after.json"></trace-diff>
+ *
+ * Takes the same `theme` attribute and `--trace-*` custom properties as
+ * `<trace-visualizer>`; parts: viewer, header, diff-grid, message.
+ */
+export class TraceDiffElement extends HTMLElement {
+  private _before?: TraceData;
+  private _after?: TraceData;
+  private _overrides: Partial<VisualizationConfig> = {};
+  private hideUnchanged: boolean = false;
+  private shadow: ShadowRoot;
+
+  constructor() {
+    super();
+    this.shadow = this.attachShadow({ mode: 'open' });
+    this.shadow.adoptedStyleSheets = [styleSheet];
+  }
+
+  static get observedAttributes() {
+    return ['before-url', 'after-url'];
+  }
+
+  connectedCallback() {
+    this.render();
+    this.loadFromAttributes();
+  }
+
+  attributeChangedCallback(_name: string, oldValue: string, newValue: string) {
+    if (oldValue !== newValue && this.isConnected) {
+      this.loadFromAttributes();
+    }
+  }
+
+  /**
+   * Set the baseline trace data programmatically
+   */
+  set beforeData(data: TraceData) {
+    this._before = data;
+    this.render();
+  }
+
+  get beforeData(): TraceData | undefined {
+    return this._before;
+  }
+
+  /**
+   * Set the trace data compared against the baseline
+   */
+  set afterData(data: TraceData) {
+    this._after = data;
+    this.render();
+  }
+
+  get afterData(): TraceData | undefined {
+    return this._after;
+  }
+
+  /**
+   * Set visualization configuration
+   */
+  set config(config: Partial<VisualizationConfig>) {
+    this._overrides = { ...this._overrides, ...config };
+    this.render();
+  }
+
+  get config(): VisualizationConfig {
+    return new VisualizationConfig(this._overrides);
+  }
+
+  /**
+   * Load both traces from URLs, in any format accepted by `<trace-visualizer>`.
+   */
+  async loadTraceData(beforeUrl: string, afterUrl: string): Promise<void> {
+    try {
+      this.shadow.innerHTML = Template.getLoadingMarkup();
+      const [before, after] = await Promise.all([beforeUrl, afterUrl].map(async url => {
+        const response = await fetch(url);
+        if (!response.ok) {
+          throw new Error(`Failed to load ${url}: ${response.statusText}`);
+        }
+        return readTraceData(response, this.getAttribute('data-format'));
+      }));
+      this._before = before;
+      this._after = after;
+      this.render();
+    } catch (error) {
+      this.shadow.innerHTML = Template.getErrorMarkup(error instanceof Error ? error.message : 'Failed to load trace data');
+    }
+  }
+
+  private loadFromAttributes(): void {
+    const beforeUrl = this.getAttribute('before-url');
+    const afterUrl = this.getAttribute('after-url');
+    if (beforeUrl && afterUrl) {
+      this.loadTraceData(beforeUrl, afterUrl);
+    }
+  }
+
+  private render(): void {
+    const before = this._before ? TraceTree.build(this._before) : undefined;
+    const after = this._after ? TraceTree.build(this._after) : undefined;
+    if (!before?.roots.length || !after?.roots.length) {
+      this.shadow.innerHTML = Template.getDiffEmptyMarkup();
+      return;
+    }
+
+    try {
+      const diff = TraceDiff.compare(before, after);
+      this.shadow.innerHTML = Template.getTraceDiffMarkup(diff, this.config, this.hideUnchanged);
+      this.shadow.querySelector('.diff-hide-unchanged-toggle')?.addEventListener('change', (event) => {
+        this.hideUnchanged = (event.target as HTMLInputElement).checked;
+        this.render();
+      });
+    } catch (error) {
+      this.shadow.innerHTML = Template.getErrorMarkup(error instanceof Error ? error.message : 'Rendering failed');
+    }
+  }
+}
+
+// Register the custom element
+if (!customElements.get('trace-diff')) {
+  customElements.define('trace-diff', TraceDiffElement);
+}
@@ -3,11 +3,79 @@
  * 
  * Usage:
  *   <trace-visualizer data-url="./trace.json"></trace-visualizer>
+ *   <trace-visualizer data-url="./trace.json" logs-url="./logs.json"></trace-visualizer>
  * 
  * Or programmatically:
  *   const viewer = document.querySelector('trace-visualizer');
  *   viewer.traceData = myTraceData;
+ *   viewer.logsData = myLogsData;
+ *
+ * Traces can also be derived from structured OTLP logs:
+ *   viewer.traceData = logsToTraceData(myLogsData);
+ *   viewer.traceData = synthesizeSpans(myLogsData, [
+ *     { startValue: 'job.started', endValue: 'job.finished', correlationKey: 'job.id' },
+ *   ]);
+ *
+ * Zipkin v2 and Jaeger JSON are detected automatically by `data-url`, or converted explicitly:
+ *   viewer.traceData = zipkinToTraceData(zipkinSpans);
+ *   viewer.traceData = jaegerToTraceData(jaegerTraces);
+ *
+ * OTLP protobuf is decoded when served as application/x-protobuf, or when forced:
+ *   <trace-visualizer data-url="./trace.pb" data-format="protobuf"></trace-visualizer>
+ *
+ * Collector file-exporter output (one TracesData per line, optionally gzipped) is merged:
+ *   <trace-visualizer data-url="./traces.jsonl.gz" data-format="ndjson"></trace-visualizer>
+ *
+ * Spans of a running trace can be streamed in (SSE for http URLs, WebSocket for ws URLs)
+ * or appended as they arrive; spans without an end time are shown as in progress:
+ *   <trace-visualizer stream-url="/stream"></trace-visualizer>
+ *   viewer.appendSpans(batch);
+ *
+ * Span bars are coloured by kind by default, or by service, status, an attribute or a function:
+ *   <trace-visualizer data-url="./trace.json" color-by="service"></trace-visualizer>
+ *   viewer.config = { colorBy: 'attribute:http.status_code' };
+ *   viewer.config = { colorBy: 'service', serviceColors: { checkout: '#d32f2f' } };
+ *
+ * Colours, fonts and borders are CSS custom properties (see styles.css), and key elements
+ * are exposed as parts; `theme` switches to the dark palette or follows the OS setting:
+ *   <trace-visualizer theme="auto"></trace-visualizer>
+ *   trace-visualizer { --trace-accent: #ff9800; }
+ *   trace-visualizer::part(span-bar) { border-radius: 0; }
+ *
+ * Two traces can be compared side by side:
+ *   <trace-diff before-url="./before.json" after-url="./after.json"></trace-diff>
+ *
+ * The open trace can be exported, also from the Download menu next to the zoom controls:
+ *   const svg = viewer.exportSVG();
+ *   const png = await viewer.exportPNG();
+ *   const html = await viewer.exportHTML();
+ * HTML export inlines the standalone dist/index.js; apps bundling the library pass its URL:
+ *   const html = await viewer.exportHTML({ url: '/vendor/log2trace/index.js' });
  */
 
 // Auto-register the component when imported
 import './component.js';
+import './diff-component.js';
+
+export { TraceTree } from './trace-tree.js';
+export { SpanFilter } from './span-filter.js';
+export { TraceDiff } from './trace-diff.js';
+export { paletteColor, CATEGORY_PALETTE } from './span-colors.js';
+export type { LegendEntry } from './span-colors.js';
+export type { ColorBy, SpanColorFunction } from './visualization-config.js';
+export type { SpanDiffRow, SpanDiffStatus } from './trace-diff.js';
+export { logsToTraceData } from './converters/logs-to-trace.js';
+export { zipkinToTraceData, isZipkinSpans } from './converters/zipkin-to-trace.js';
+export type { ZipkinSpan, ZipkinEndpoint } from './converters/zipkin-to-trace.js';
+export { jaegerToTraceData, isJaegerTraces } from './converters/jaeger-to-trace.js';
+export type { JaegerTraces, JaegerTrace, JaegerSpan, JaegerTag } from './converters/jaeger-to-trace.js';
+export { decodeOtlpProtobuf, decodeTracesProtobuf, decodeLogsProtobuf } from './converters/otlp-protobuf.js';
+export { toTraceData, mergeTraceData, mergeLogsData } from './converters/trace-payload.js';
+export type { PayloadFormat } from './converters/trace-payload.js';
+export {
+  synthesizeSpans,
+  isSyntheticSpan,
+  SYNTHETIC_SPAN_ATTRIBUTE,
+  UNFINISHED_SPAN_ATTRIBUTE,
+} from './converters/span-markers.js';
+export type { SpanMarkerRule } from './converters/span-markers.js';
@@ -48,6 +48,25 @@ export function extractString(value?: AnyValue): string | undefined {
   return value?.stringValue;
 }
 
+/**
+ * Render an AnyValue as display text, unwrapping nested arrays and key-value lists.
+ */
+export function formatAnyValue(value?: AnyValue): string {
+  if (!value) return '';
+  if (value.stringValue !== undefined) return value.stringValue;
+  if (value.boolValue !== undefined) return String(value.boolValue);
+  if (value.intValue !== undefined) return String(value.intValue);
+  if (value.doubleValue !== undefined) return String(value.doubleValue);
+  if (value.bytesValue !== undefined) return value.bytesValue;
+  if (value.arrayValue) {
+    return `[${value.arrayValue.values.map(formatAnyValue).join(', ')}]`;
+  }
+  if (value.kvlistValue) {
+    return `{${value.kvlistValue.values.map(kv => `${kv.key}: ${formatAnyValue(kv.value)}`).join(', ')}}`;
+  }
+  return '';
+}
+
 /**
  * InstrumentationScope represents the instrumentation scope information
  * such as the fully qualified name and version.
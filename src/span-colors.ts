@@ -0,0 +1,118 @@
+import { Span, SpanKind } from './opentelemetry/trace.js';
+import { formatAnyValue } from './opentelemetry/common.js';
+import { TraceTree } from './trace-tree.js';
+import { VisualizationConfig } from './visualization-config.js';
+
+/** One entry of the colour legend. */
+export interface LegendEntry {
+  label: string;
+  color: string;
+}
+
+/** Colours assigned to services and attribute values by hashing their name. */
+export const CATEGORY_PALETTE = [
+  '#4e79a7', '#f28e2b', '#e15759', '#76b7b2', '#59a14f', '#edc948',
+  '#b07aa1', '#ff9da7', '#9c755f', '#17becf', '#8cd17d', '#d37295',
+];
+
+const STATUS_COLORS: LegendEntry[] = [
+  { label: 'Unset', color: '#90a4ae' },
+  { label: 'Ok', color: '#43a047' },
+  { label: 'Error', color: '#e53935' },
+];
+
+/** HTTP status code classes, for attributes whose key ends in `status_code`. */
+const HTTP_STATUS_COLORS: Record<string, string> = {
+  '1xx': '#90a4ae',
+  '2xx': '#43a047',
+  '3xx': '#1e88e5',
+  '4xx': '#fb8c00',
+  '5xx': '#e53935',
+};
+
+const UNSET_COLOR = '#bdbdbd';
+const UNSET_LABEL = '(not set)';
+
+/** Legends list at most this many values; the rest are summarized. */
+const MAX_LEGEND_ENTRIES = 12;
+
+/**
+ * Stable palette colour for a name (FNV-1a hash), so a service keeps its
+ * colour across traces and page loads.
+ */
+export function paletteColor(name: string): string {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < name.length; i++) {
+    hash ^= name.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return CATEGORY_PALETTE[(hash >>> 0) % CATEGORY_PALETTE.length];
+}
+
+/**
+ * Colour of a span bar and the legend label of its group, under `config.colorBy`.
+ */
+export function getSpanColor(tree: TraceTree, span: Span, config: VisualizationConfig): LegendEntry {
+  const serviceName = tree.serviceNameOf.get(span.spanId) || 'unknown-service';
+  const colorBy = config.colorBy;
+
+  if (typeof colorBy === 'function') {
+    const result = colorBy(span, serviceName);
+    return typeof result === 'string' ? { label: result, color: result } : result;
+  }
+  if (colorBy === 'service') {
+    return { label: serviceName, color: config.serviceColors[serviceName] || paletteColor(serviceName) };
+  }
+  if (colorBy === 'status') {
+    return STATUS_COLORS[span.status?.code ?? 0] ?? STATUS_COLORS[0];
+  }
+  if (colorBy.startsWith('attribute:')) {
+    const key = colorBy.slice('attribute:'.length);
+    const attribute = span.attributes.find(attr => attr.key === key)
+      ?? tree.resourceOf.get(span.spanId)?.attributes.find(attr => attr.key === key);
+    const value = formatAnyValue(attribute?.value);
+    if (!value) return { label: UNSET_LABEL, color: UNSET_COLOR };
+    if (key.endsWith('status_code') && /^[1-5]\d\d$/.test(value)) {
+      const bucket = `${value[0]}xx`;
+      return { label: bucket, color: HTTP_STATUS_COLORS[bucket] };
+    }
+    return { label: value, color: paletteColor(value) };
+  }
+  return { label: SpanKind[span.kind] || 'Unknown', color: config.colorScheme[span.kind] || '#999' };
+}
+
+/**
+ * Legend of the active colour mapping. Kind and status legends list every
+ * value; the other modes list the groups present in the tree, most frequent
+ * first. Without a tree only the fixed kind and status legends can be given.
+ */
+export function getColorLegend(config: VisualizationConfig, tree?: TraceTree): LegendEntry[] {
+  if (config.colorBy === 'kind') {
+    return Object.entries(config.colorScheme)
+      .filter(([kindValue]) => Number(kindValue) !== SpanKind.Unspecified)
+      .map(([kindValue, color]) => ({ label: SpanKind[Number(kindValue)] || 'Unknown', color }));
+  }
+  if (config.colorBy === 'status') {
+    return STATUS_COLORS;
+  }
+  if (!tree) return [];
+
+  const groups = new Map<string, { entry: LegendEntry; count: number }>();
+  for (const { span } of tree.flatten()) {
+    if (tree.isPlaceholder(span.spanId)) continue;
+    const entry = getSpanColor(tree, span, config);
+    const group = groups.get(entry.label);
+    if (group) {
+      group.count++;
+    } else {
+      groups.set(entry.label, { entry, count: 1 });
+    }
+  }
+
+  const entries = [...groups.values()].sort((a, b) => b.count - a.count).map(group => group.entry);
+  if (entries.length <= MAX_LEGEND_ENTRIES) return entries;
+  return [
+    ...entries.slice(0, MAX_LEGEND_ENTRIES - 1),
+    { label: `${entries.length - MAX_LEGEND_ENTRIES + 1} more`, color: 'transparent' },
+  ];
+}
@@ -0,0 +1,115 @@
+import { Span, SpanKind } from './opentelemetry/trace.js';
+import { formatAnyValue } from './opentelemetry/common.js';
+import { TraceTree } from './trace-tree.js';
+
+type SpanPredicate = (span: Span, tree: TraceTree) => boolean;
+
+const STATUS_CODES: Record<string, number> = { unset: 0, ok: 1, error: 2 };
+
+const DURATION_UNITS: Record<string, bigint> = {
+  ns: 1n,
+  us: 1_000n,
+  µs: 1_000n,
+  ms: 1_000_000n,
+  s: 1_000_000_000n,
+  m: 60_000_000_000n,
+  min: 60_000_000_000n,
+};
+
+/**
+ * Span search query.
+ *
+ * A query is a list of whitespace-separated terms that must all match:
+ *   - free text (quoted for phrases) matches span name, service name, span ID
+ *     and attribute keys and values, case-insensitively
+ *   - `service:<text>`, `name:<text>` and `id:<text>` match one field only
+ *   - `status:error|ok|unset` and `kind:client|server|internal|producer|consumer`
+ *   - `duration>100ms`, `duration<=2s` (units: ns, us, ms, s, m; ms by default)
+ *   - `<attribute.key>=<value>` matches one attribute exactly
+ */
+export class SpanFilter {
+  private constructor(
+    public readonly query: string,
+    private readonly predicates: SpanPredicate[],
+  ) {}
+
+  static parse(query: string): SpanFilter {
+    const terms = query.match(/"[^"]*"|\S+/g) || [];
+    return new SpanFilter(query, terms.map(term => this.parseTerm(term)));
+  }
+
+  get isEmpty(): boolean {
+    return this.predicates.length === 0;
+  }
+
+  matches(span: Span, tree: TraceTree): boolean {
+    return this.predicates.every(predicate => predicate(span, tree));
+  }
+
+  private static parseTerm(term: string): SpanPredicate {
+    if (term.startsWith('"') && term.endsWith('"') && term.length > 1) {
+      return this.textPredicate(term.slice(1, -1));
+    }
+
+    const duration = term.match(/^duration(<=|>=|<|>|=)(\d+(?:\.\d+)?)([a-zµ]*)$/i);
+    if (duration) {
+      const [, operator, amount, unit] = duration;
+      const factor = DURATION_UNITS[unit.toLowerCase() || 'ms'];
+      if (factor !== undefined) {
+        return this.durationPredicate(operator, BigInt(Math.round(Number(amount) * Number(factor))));
+      }
+    }
+
+    const field = term.match(/^(service|name|id|status|kind):(.+)$/i);
+    if (field) {
+      const value = field[2].toLowerCase();
+      switch (field[1].toLowerCase()) {
+        case 'service':
+          return (span, tree) => (tree.serviceNameOf.get(span.spanId) || '').toLowerCase().includes(value);
+        case 'name':
+          return span => span.name.toLowerCase().includes(value);
+        case 'id':
+          return span => span.spanId.toLowerCase().includes(value);
+        case 'status':
+          return span => (span.status?.code ?? 0) === STATUS_CODES[value];
+        case 'kind':
+          return span => (SpanKind[span.kind] || '').toLowerCase() === value;
+      }
+    }
+
+    const attribute = term.match(/^([^=]+)=(.*)$/);
+    if (attribute) {
+      const [, key, value] = attribute;
+      return span => span.attributes.some(attr =>
+        attr.key === key && formatAnyValue(attr.value).toLowerCase() === value.toLowerCase()
+      );
+    }
+
+    return this.textPredicate(term);
+  }
+
+  private static textPredicate(text: string): SpanPredicate {
+    const needle = text.toLowerCase();
+    return (span, tree) =>
+      span.name.toLowerCase().includes(needle)
+      || (tree.serviceNameOf.get(span.spanId) || '').toLowerCase().includes(needle)
+      || span.spanId.toLowerCase().includes(needle)
+      || span.attributes.some(attr =>
+        attr.key.toLowerCase().includes(needle)
+        || formatAnyValue(attr.value).toLowerCase().includes(needle)
+      );
+  }
+
+  private static durationPredicate(operator: string, thresholdNano: bigint): SpanPredicate {
+    return span => {
+      const duration = BigInt(span.endTimeUnixNano) - BigInt(span.startTimeUnixNano);
+      switch (operator) {
+        case '<': return duration < thresholdNano;
+        case '<=': return duration <= thresholdNano;
+        case '>': return duration > thresholdNano;
+        case '>=': return duration >= thresholdNano;
+        default: return duration === thresholdNano;
+      }
+    };
+  }
+}
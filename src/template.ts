@@ -1,7 +1,89 @@
-import { Span, SpanKind } from './opentelemetry/trace.js';
-import { nanoToMilli } from './time.js';
-import { TraceTree } from './trace-tree.js';
+import { TraceData, Span, SpanKind, Link } from './opentelemetry/trace.js';
+import { LogsData, LogRecord, SeverityNumber } from './opentelemetry/logs.js';
+import { AnyValue, KeyValue, InstrumentationScope, formatAnyValue } from './opentelemetry/common.js';
+import { logRecordTime } from './converters/logs-to-trace.js';
+import { isSyntheticSpan } from './converters/span-markers.js';
+import { nanoToMilli, nanoDiffToMilli } from './time.js';
+import { TraceTree, TraceSummary, CriticalPathSegment, LatencyBreakdownRow, ServiceDependency } from './trace-tree.js';
+import { TraceDiff, SpanDiffRow } from './trace-diff.js';
 import { VisualizationConfig } from './visualization-config.js';
+import { getSpanColor, getColorLegend } from './span-colors.js';
+
+/**
+ * View state that affects the waterfall markup.
+ */
+export interface TraceViewOptions {
+  /** Show a link back to the trace list (when more than one trace is loaded). */
+  showTraceListLink?: boolean;
+  /** Rows to draw; defaults to every span of the tree. */
+  flatSpans?: Array<{ span: Span; level: number }>;
+  searchQuery?: string;
+  hideNonMatching?: boolean;
+  /** Depth shown in the "collapse below depth" control. */
+  collapseDepth?: number;
+  /** Active tab; defaults to the waterfall. */
+  mode?: TraceViewMode;
+  breakdown?: BreakdownViewOptions;
+  /** Description of the spans highlighted from another tab, shown with a clear button. */
+  highlightLabel?: string;
+  /** Span the flame graph is zoomed to. */
+  flameZoomSpanId?: string;
+  /** Service call the waterfall is filtered to, chosen in the service graph. */
+  dependencyFilter?: { source: string; target: string };
+  /** Connection state of the `stream-url` subscription, if any. */
+  stream?: StreamState;
+}
+
+export interface StreamState {
+  status: 'connecting' | 'live' | 'closed' | 'error';
+  /** Why the last message could not be read, when `status` is `error`. */
+  message?: string;
+}
+
+/**
+ * A link between two rows of the waterfall, by row index.
+ */
+export interface LinkConnector {
+  sourceIndex: number;
+  targetIndex: number;
+  link: Link;
+}
+
+export type TraceViewMode = 'waterfall' | 'flame' | 'breakdown' | 'graph';
+
+/**
+ * View state baked into an exported image of the waterfall.
+ */
+export interface TraceExportOptions {
+  /** Width of the timeline at 100% zoom, in pixels. */
+  timelineWidth: number;
+  zoomLevel?: number;
+  showCriticalPath?: boolean;
+  /** Spans drawn at full opacity while the others are dimmed. */
+  highlightIds?: Set<string>;
+}
+
+/** Layout of an exported waterfall image in pixels. */
+const EXPORT_LABEL_WIDTH = 320;
+const EXPORT_HEADER_HEIGHT = 36;
+const EXPORT_AXIS_HEIGHT = 24;
+const EXPORT_LEGEND_HEIGHT = 32;
+const EXPORT_FONT = "-apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif";
+
+/** Height of one flame graph row in pixels. */
+const FLAME_ROW_HEIGHT = 20;
+
+/** Service graph node size and spacing in pixels. */
+const GRAPH_NODE_WIDTH = 160;
+const GRAPH_NODE_HEIGHT = 44;
+const GRAPH_COLUMN_WIDTH = 240;
+const GRAPH_ROW_HEIGHT = 80;
+const GRAPH_MARGIN = 40;
+
+export interface BreakdownViewOptions {
+  groupBy: 'service' | 'operation';
+  sort: { key: keyof LatencyBreakdownRow; descending: boolean };
+}
 
 export class Template {
 
@@ -17,13 +99,75 @@ export class Template {
     }
   }
 
+  static getStatusLabel(statusCode: number): string {
+    return ['Unset', 'Ok', 'Error'][statusCode] ?? String(statusCode);
+  }
+
   static formatDuration(ms: number): string {
     if (ms < 1) return `${(ms * 1000).toFixed(0)}&micro;s`;
+    return Template.formatDurationText(ms);
+  }
+
+  /**
+   * Duration as plain text, for attribute values read out by screen readers
+   * and markup that is not parsed as HTML.
+   */
+  static formatDurationText(ms: number): string {
+    if (ms < 1) return `${(ms * 1000).toFixed(0)}\u00b5s`;
     if (ms < 1000) return `${ms.toFixed(2)}ms`;
     if (ms < 60000) return `${(ms / 1000).toFixed(2)}s`;
     return `${(ms / 60000).toFixed(2)}min`;
   }
 
+  /**
+   * Signed clock offset, given in nanoseconds.
+   */
+  static formatClockOffset(offsetNanos: number): string {
+    return `${offsetNanos < 0 ? '&minus;' : '+'}${Template.formatDuration(Math.abs(offsetNanos) / 1e6)}`;
+  }
+
+  /**
+   * Signed clock offset as plain text, like `formatDurationText`.
+   */
+  static formatClockOffsetText(offsetNanos: number): string {
+    return `${offsetNanos < 0 ? '\u2212' : '+'}${Template.formatDurationText(Math.abs(offsetNanos) / 1e6)}`;
+  }
+
+  static formatTimestamp(ms: number): string {
+    return new Date(ms).toISOString().replace('T', ' ').replace('Z', '');
+  }
+
+  static escapeHtml(text: string): string {
+    return text
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;')
+      .replace(/'/g, '&#39;');
+  }
+
+  static getSeverityClass(severityNumber: SeverityNumber): string {
+    if (severityNumber >= SeverityNumber.SEVERITY_NUMBER_FATAL) return 'fatal';
+    if (severityNumber >= SeverityNumber.SEVERITY_NUMBER_ERROR) return 'error';
+    if (severityNumber >= SeverityNumber.SEVERITY_NUMBER_WARN) return 'warn';
+    if (severityNumber >= SeverityNumber.SEVERITY_NUMBER_INFO) return 'info';
+    if (severityNumber >= SeverityNumber.SEVERITY_NUMBER_DEBUG) return 'debug';
+    if (severityNumber >= SeverityNumber.SEVERITY_NUMBER_TRACE) return 'trace';
+    return 'unspecified';
+  }
+
+  static getSeverityLabel(record: LogRecord): string {
+    return record.severityText || Template.getSeverityClass(record.severityNumber).toUpperCase();
+  }
+
+  /**
+   * Inline background of the viewer when `backgroundColor` is configured;
+   * otherwise the `--trace-background` theme token applies.
+   */
+  static getBackgroundStyle(config: VisualizationConfig): string {
+    return config.backgroundColor ? ` style="background: ${Template.escapeHtml(config.backgroundColor)};"` : '';
+  }
+
   static calculateTickCount(containerWidth?: number): number {
     const width = containerWidth || 600;
     const minTickSpacing = 120;
@@ -46,27 +190,90 @@ export class Template {
       return `
         <div class="span-event"
              style="left:${eventOffset}%"
-             title="${event.name}\nTime: ${Template.formatDuration(eventMs - startMs)}">
+             title="${Template.escapeHtml(event.name)}\nTime: ${Template.formatDuration(eventMs - startMs)}">
         </div>
       `;
     }).join('');
   }
 
-  static getLegendMarkup(config: VisualizationConfig): string {
-    const items = Object.entries(config.colorScheme)
-      .filter(([kindValue]) => Number(kindValue) !== SpanKind.Unspecified)
-      .map(([kindValue, color]) => {
-        const label = SpanKind[Number(kindValue)] || 'Unknown';
-        return `
+  static getLogsMarkup(span: Span, logs: LogRecord[]): string {
+    if (logs.length === 0) return '';
+
+    const startMs = nanoToMilli(span.startTimeUnixNano);
+    const spanDuration = nanoToMilli(span.endTimeUnixNano) - startMs;
+
+    return logs.map(record => {
+      const recordMs = nanoToMilli(logRecordTime(record));
+      const offset = spanDuration > 0 ? ((recordMs - startMs) / spanDuration) * 100 : 0;
+      const title = `${Template.getSeverityLabel(record)}: ${formatAnyValue(record.body)}`;
+      return `
+        <div class="span-log severity-${Template.getSeverityClass(record.severityNumber)}"
+             style="left:${Math.min(Math.max(offset, 0), 100)}%"
+             title="${Template.escapeHtml(title)}\nTime: ${Template.formatDuration(recordMs - startMs)}">
+        </div>
+      `;
+    }).join('');
+  }
+
+  static getLogEntriesMarkup(span: Span, logs: LogRecord[]): string {
+    if (logs.length === 0) return '';
+
+    const startMs = nanoToMilli(span.startTimeUnixNano);
+    const entries = logs.map(record => {
+      const attributes = record.attributes.map(attr => `
+        <div class="log-attribute">
+          <span class="log-attribute-key">${Template.escapeHtml(attr.key)}</span>
+          ${Template.escapeHtml(formatAnyValue(attr.value))}
+        </div>
+      `).join('');
+
+      return `
+        <li class="log-entry">
+          <div class="log-entry-header">
+            <span class="log-time">+${Template.formatDuration(nanoToMilli(logRecordTime(record)) - startMs)}</span>
+            <span class="log-severity severity-${Template.getSeverityClass(record.severityNumber)}">${Template.escapeHtml(Template.getSeverityLabel(record))}</span>
+          </div>
+          <div class="log-body">${Template.escapeHtml(formatAnyValue(record.body))}</div>
+          ${attributes}
+        </li>
+      `;
+    }).join('');
+
+    return `
+      <h4>Logs (${logs.length})</h4>
+      <ul class="log-entries">${entries}</ul>
+    `;
+  }
+
+  static getCriticalPathMarkup(span: Span, segments: CriticalPathSegment[]): string {
+    if (segments.length === 0) return '';
+
+    const start = BigInt(span.startTimeUnixNano);
+    const duration = Number(BigInt(span.endTimeUnixNano) - start);
+    if (duration <= 0) return '<div class="critical-segment" style="left:0;width:100%"></div>';
+
+    return segments.map(segment => {
+      const left = (Number(BigInt(segment.startTimeUnixNano) - start) / duration) * 100;
+      const width = (Number(BigInt(segment.endTimeUnixNano) - BigInt(segment.startTimeUnixNano)) / duration) * 100;
+      return `<div class="critical-segment" style="left:${left}%;width:${width}%"></div>`;
+    }).join('');
+  }
+
+  /**
+   * Legend of the active colour mapping (see `VisualizationConfig.colorBy`).
+   * Service, attribute and custom mappings list the groups found in `tree`.
+   */
+  static getLegendMarkup(config: VisualizationConfig, tree?: TraceTree): string {
+    const items = getColorLegend(config, tree)
+      .map(({ label, color }) => `
           <div class="legend-item">
-            <div class="legend-color" style="background: ${color};"></div>
-            <span>${label}</span>
+            <div class="legend-color" style="--span-color: ${Template.escapeHtml(color)};"></div>
+            <span>${Template.escapeHtml(label)}</span>
           </div>
-        `;
-      })
+        `)
       .join('');
 
-    return `<div class="legend">${items}</div>`;
+    return `<div class="legend" part="legend">${items}</div>`;
   }
 
   static getTimelineTicksMarkup(timeRange: { min: number; max: number }, ticks: number): string {
@@ -128,15 +335,18 @@ export class Template {
   }
 
   static getSpanMarkup(
+    tree: TraceTree,
     span: Span,
     index: number,
     timeRange: { min: number; max: number },
     config: VisualizationConfig
   ): string {
     const yPosition = 50 + index * (config.spanHeight + config.spanPadding);
-    const color = config.colorScheme[span.kind] || '#999';
+    const color = Template.escapeHtml(getSpanColor(tree, span, config).color);
+    const spanId = Template.escapeHtml(span.spanId);
 
-    const totalDuration = timeRange.max - timeRange.min;
+    // The first batch of a live trace may not span any time yet
+    const totalDuration = timeRange.max - timeRange.min || 1;
     const startMs = nanoToMilli(span.startTimeUnixNano);
     const endMs = nanoToMilli(span.endTimeUnixNano);
     const spanDuration = endMs - startMs;
@@ -144,106 +354,1178 @@ export class Template {
     const widthPercent = (spanDuration / totalDuration) * 100;
 
     const kindLabel = SpanKind[span.kind];
+    const synthetic = isSyntheticSpan(span);
+    const placeholder = tree.isPlaceholder(span.spanId);
+    const inProgress = tree.isInProgress(span.spanId);
+    const criticalSegments = tree.getCriticalPath().get(span.spanId) ?? [];
+    const barClasses = ['span-bar'];
+    if (synthetic) barClasses.push('synthetic');
+    if (placeholder) barClasses.push('placeholder');
+    if (inProgress) barClasses.push('in-progress');
+    if (tree.clockOffsetOf.has(span.spanId)) barClasses.push('clock-adjusted');
+    if (criticalSegments.length > 0) barClasses.push('critical');
+
+    const durationLabel = inProgress ? `&ge; ${Template.formatDuration(spanDuration)}` : Template.formatDuration(spanDuration);
+    const title = placeholder
+      ? `Missing span ${span.spanId}\nInferred from ${tree.childrenOf.get(span.spanId)?.length ?? 0} child span(s)`
+      : `${span.name}\nDuration: ${inProgress ? `in progress, ${Template.formatDuration(spanDuration)} so far` : Template.formatDuration(spanDuration)}`
+        + `\nKind: ${kindLabel}${synthetic ? '\nSynthesized from log markers' : ''}`;
 
     return `
-      <div class="span-row" style="top:${yPosition}px;height:${config.spanHeight}px">
-        <div class="span-bar"
-             style="left:${startPercent}%;width:${Math.max(widthPercent, 0.5)}%;background:${color}"
-             data-span-id="${span.spanId}"
-             title="${span.name}\nDuration: ${Template.formatDuration(spanDuration)}\nKind: ${kindLabel}">
+      <div class="span-row" part="span-row" data-span-id="${spanId}" style="top:${yPosition}px;height:${config.spanHeight}px">
+        <div class="${barClasses.join(' ')}" part="span-bar"
+             style="left:${startPercent}%;width:${Math.max(widthPercent, 0.5)}%;${placeholder ? '' : `--span-color:${color}`}"
+             data-span-id="${spanId}"
+             title="${Template.escapeHtml(title)}">
           <div class="span-duration">
-            ${Template.formatDuration(spanDuration)}
+            ${durationLabel}
           </div>
+          ${Template.getCriticalPathMarkup(span, criticalSegments)}
           ${Template.getEventsMarkup(span)}
+          ${Template.getLogsMarkup(span, tree.logsOf.get(span.spanId) ?? [])}
+          ${Template.getLinkMarkersMarkup(span)}
         </div>
       </div>
     `;
   }
 
-  static getSpansMarkup(
+  static getLinkMarkersMarkup(span: Span): string {
+    return (span.links ?? []).map((link, i) => `
+      <div class="span-link-marker"
+           style="top:${i * 4 - 4}px"
+           data-trace-id="${Template.escapeHtml(link.traceId)}"
+           data-span-id="${Template.escapeHtml(link.spanId)}"
+           title="Linked span ${Template.escapeHtml(link.spanId)}\nTrace ${Template.escapeHtml(link.traceId)}">&#8599;</div>
+    `).join('');
+  }
+
+  /**
+   * SVG connectors between linked spans that are both drawn in the waterfall,
+   * for the links with at least one end among the `rendered` rows. An end
+   * outside them is cut off at the edge of the rendered rows.
+   * Horizontal coordinates are percentages of the time range, so the layer
+   * stretches with the zoom transform of the timeline container.
+   */
+  static getLinkConnectorsMarkup(
     flatSpans: Array<{ span: Span; level: number }>,
+    connectors: LinkConnector[],
+    rendered: { start: number; end: number },
     timeRange: { min: number; max: number },
     config: VisualizationConfig
+  ): string {
+    const totalDuration = timeRange.max - timeRange.min || 1;
+    const rowHeight = config.spanHeight + config.spanPadding;
+    const xOf = (index: number) => ((nanoToMilli(flatSpans[index].span.startTimeUnixNano) - timeRange.min) / totalDuration) * 100;
+    const yOf = (index: number) => 50 + index * rowHeight + config.spanHeight / 2;
+    const isRendered = (index: number) => index >= rendered.start && index < rendered.end;
+    const edgeY = (index: number) => 50 + (index < rendered.start ? rendered.start : rendered.end) * rowHeight;
+
+    return connectors
+      .filter(({ sourceIndex, targetIndex }) => isRendered(sourceIndex) || isRendered(targetIndex))
+      .map(({ sourceIndex, targetIndex, link }) => {
+        let x1 = xOf(sourceIndex);
+        let y1 = yOf(sourceIndex);
+        let x2 = xOf(targetIndex);
+        let y2 = yOf(targetIndex);
+        // Stub towards an off-screen end, following the straight line between the two ends
+        if (!isRendered(sourceIndex)) {
+          const y = edgeY(sourceIndex);
+          x1 = x2 + ((x1 - x2) * (y - y2)) / (y1 - y2);
+          y1 = y;
+        } else if (!isRendered(targetIndex)) {
+          const y = edgeY(targetIndex);
+          x2 = x1 + ((x2 - x1) * (y - y1)) / (y2 - y1);
+          y2 = y;
+        }
+        return `
+          <path class="link-connector" d="M ${x1} ${y1} C ${x1 - 2} ${y1}, ${x2 - 2} ${y2}, ${x2} ${y2}"
+                data-trace-id="${Template.escapeHtml(link.traceId)}" data-span-id="${Template.escapeHtml(link.spanId)}">
+            <title>Link to ${Template.escapeHtml(link.spanId)}</title>
+          </path>
+        `;
+      }).join('');
+  }
+
+  /**
+   * Markup for a run of consecutive rows; `startIndex` is the row index of the first one.
+   */
+  static getSpansMarkup(
+    tree: TraceTree,
+    flatSpans: Array<{ span: Span; level: number }>,
+    timeRange: { min: number; max: number },
+    config: VisualizationConfig,
+    startIndex: number = 0
   ): string {
     return flatSpans.map(({ span }, index) =>
-      Template.getSpanMarkup(span, index, timeRange, config)
+      Template.getSpanMarkup(tree, span, startIndex + index, timeRange, config)
     ).join('');
   }
 
+  static getSpanToggleMarkup(tree: TraceTree, span: Span, collapsed: Set<string>): string {
+    const descendants = tree.getDescendantCount(span.spanId);
+    if (descendants === 0) return '<span class="span-toggle-spacer"></span>';
+
+    const isCollapsed = collapsed.has(span.spanId);
+    return `
+      <button class="span-toggle" data-span-id="${Template.escapeHtml(span.spanId)}" aria-expanded="${!isCollapsed}"
+              title="${isCollapsed ? 'Expand' : 'Collapse'}">${isCollapsed ? '&#9656;' : '&#9662;'}</button>
+    `;
+  }
+
+  /**
+   * Span labels, which double as the rows of the waterfall's treegrid: each
+   * one carries the ARIA row state and an accessible name summarising the span.
+   */
   static getSpanLabelsMarkup(
     tree: TraceTree,
     flatSpans: Array<{ span: Span; level: number }>,
-    config: VisualizationConfig
+    config: VisualizationConfig,
+    collapsed: Set<string> = new Set(),
+    startIndex: number = 0
   ): string {
     return flatSpans.map(({ span, level }, index) => {
-      const yPosition = 50 + index * (config.spanHeight + config.spanPadding);
+      const rowIndex = startIndex + index;
+      const yPosition = 50 + rowIndex * (config.spanHeight + config.spanPadding);
       const indent = level * 20;
       const statusIcon = Template.getStatusIcon(span.status?.code ?? 0);
       const serviceName = tree.serviceNameOf.get(span.spanId) || 'unknown-service';
+      const spanId = Template.escapeHtml(span.spanId);
+      const style = `top:${yPosition}px;left:${indent}px;width:${230 - indent}px;height:${config.spanHeight}px`;
+      const toggle = Template.getSpanToggleMarkup(tree, span, collapsed);
+      const descendantCount = tree.getDescendantCount(span.spanId);
+      const hiddenCount = collapsed.has(span.spanId) ? descendantCount : 0;
+      const hiddenBadge = hiddenCount > 0
+        ? `<span class="hidden-count" title="${hiddenCount} hidden descendant span(s)">+${hiddenCount}</span>`
+        : '';
+      const placeholder = tree.isPlaceholder(span.spanId);
+      const clockOffset = tree.clockOffsetOf.get(span.spanId);
+      const clockBadge = clockOffset !== undefined
+        ? `<span class="clock-skew-badge" title="Clock adjusted by ${Template.formatClockOffset(clockOffset)}">&#8646;</span>`
+        : '';
+      const rowAttributes = [
+        `id="row-${spanId}"`,
+        'role="row"',
+        `aria-level="${level + 1}"`,
+        `aria-rowindex="${rowIndex + 1}"`,
+        descendantCount > 0 ? `aria-expanded="${!collapsed.has(span.spanId)}"` : '',
+        `aria-label="${Template.escapeHtml(Template.getSpanAccessibleName(tree, span))}"`,
+      ].join(' ');
+
+      if (placeholder) {
+        return `
+          <div class="span-label-fixed placeholder" part="span-label" data-span-id="${spanId}" ${rowAttributes} style="${style}" title="Parent span ${spanId} is missing from the data">
+            <div class="span-label-cell" role="gridcell">
+              ${toggle}
+              <span class="status-icon">&#9888;</span>
+              <strong>Missing span</strong>
+              ${hiddenBadge}
+              <br/>
+              <small>${spanId}</small>
+            </div>
+          </div>
+        `;
+      }
 
       return `
-        <div class="span-label-fixed" style="top:${yPosition}px;left:${indent}px;width:${230 - indent}px;height:${config.spanHeight}px" title="${span.name}">
+        <div class="span-label-fixed" part="span-label" data-span-id="${spanId}" ${rowAttributes} style="${style}" title="${Template.escapeHtml(span.name)}">
+          <div class="span-label-cell" role="gridcell">
+            ${toggle}
+            <span class="status-icon">${statusIcon}</span>
+            <strong>${Template.escapeHtml(serviceName)}</strong>
+            ${clockBadge}
+            ${hiddenBadge}
+            <br/>
+            <small>${Template.escapeHtml(span.name)}</small>
+          </div>
+        </div>
+      `;
+    }).join('');
+  }
+
+  /**
+   * Text read by screen readers for a waterfall row: service, name, duration and status.
+   */
+  static getSpanAccessibleName(tree: TraceTree, span: Span): string {
+    if (tree.isPlaceholder(span.spanId)) {
+      return `Missing span ${span.spanId}, ${tree.childrenOf.get(span.spanId)?.length ?? 0} child span(s)`;
+    }
+    const serviceName = tree.serviceNameOf.get(span.spanId) || 'unknown-service';
+    const duration = Template.formatDurationText(nanoDiffToMilli(span.endTimeUnixNano, span.startTimeUnixNano));
+    const clockOffset = tree.clockOffsetOf.get(span.spanId);
+    return `${serviceName}, ${span.name}, ${tree.isInProgress(span.spanId) ? `in progress for ${duration}` : duration}, `
+      + `status ${Template.getStatusLabel(span.status?.code ?? 0)}`
+      + (clockOffset !== undefined ? `, clock adjusted by ${Template.formatClockOffsetText(clockOffset)}` : '');
+  }
+
+  static getTreeControlsMarkup(collapseDepth: number): string {
+    return `
+      <div class="tree-controls">
+        <button class="tree-btn tree-expand-all" title="Expand all spans">Expand all</button>
+        <button class="tree-btn tree-collapse-depth" title="Collapse every span nested deeper than the given depth">Collapse below depth</button>
+        <input class="tree-collapse-depth-input" type="number" min="0" value="${collapseDepth}" aria-label="Depth"/>
+        <button class="tree-btn tree-expand-selected" title="Expand the path to the selected span">Expand to selected</button>
+      </div>
+    `;
+  }
+
+  // ---------------------------------------------------------------------------
+  // Detail panel
+  // ---------------------------------------------------------------------------
+
+  static getCopyButtonMarkup(value: string): string {
+    return `<button class="copy-btn" data-copy="${Template.escapeHtml(value)}" title="Copy">&#10697;</button>`;
+  }
+
+  static getAnyValueMarkup(value?: AnyValue): string {
+    if (value?.arrayValue) {
+      const items = value.arrayValue.values.map(item => `<li>${Template.getAnyValueMarkup(item)}</li>`).join('');
+      return `<ol class="any-value-array" start="0">${items}</ol>`;
+    }
+    if (value?.kvlistValue) {
+      return `<div class="any-value-kvlist">${Template.getAttributeRowsMarkup(value.kvlistValue.values)}</div>`;
+    }
+
+    const type = value?.stringValue !== undefined ? 'string'
+      : value?.boolValue !== undefined ? 'bool'
+      : value?.intValue !== undefined || value?.doubleValue !== undefined ? 'number'
+      : value?.bytesValue !== undefined ? 'bytes'
+      : 'empty';
+    return `<span class="any-value any-value-${type}">${Template.escapeHtml(formatAnyValue(value))}</span>`;
+  }
+
+  static getDetailRowMarkup(label: string, valueMarkup: string, copyValue?: string): string {
+    return `
+      <div class="detail-row">
+        <div class="detail-key">${Template.escapeHtml(label)}</div>
+        <div class="detail-value">${valueMarkup}</div>
+        ${copyValue !== undefined ? Template.getCopyButtonMarkup(copyValue) : '<span></span>'}
+      </div>
+    `;
+  }
+
+  static getAttributeRowsMarkup(attributes: KeyValue[]): string {
+    return attributes.map(attr =>
+      Template.getDetailRowMarkup(attr.key, Template.getAnyValueMarkup(attr.value), formatAnyValue(attr.value))
+    ).join('');
+  }
+
+  static getDetailSectionMarkup(title: string, body: string, count?: number): string {
+    return `
+      <section class="detail-section">
+        <h4>${Template.escapeHtml(title)}${count !== undefined ? ` (${count})` : ''}</h4>
+        ${body || '<div class="detail-empty">None</div>'}
+      </section>
+    `;
+  }
+
+  static getSpanOverviewMarkup(tree: TraceTree, span: Span, traceStartMs: number): string {
+    const statusCode = span.status?.code ?? 0;
+    const statusLabel = Template.getStatusLabel(statusCode);
+    const durationMs = nanoDiffToMilli(span.endTimeUnixNano, span.startTimeUnixNano);
+    const startOffsetMs = nanoToMilli(span.startTimeUnixNano) - traceStartMs;
+    const serviceName = tree.serviceNameOf.get(span.spanId) || 'unknown-service';
+    const text = (value: string) => Template.escapeHtml(value);
+
+    return [
+      Template.getDetailRowMarkup('Name', text(span.name), span.name),
+      Template.getDetailRowMarkup('Service', text(serviceName), serviceName),
+      Template.getDetailRowMarkup('Kind', text(SpanKind[span.kind] ?? String(span.kind))),
+      Template.getDetailRowMarkup('Status', `<span class="status-${statusLabel.toLowerCase()}">${statusLabel}</span>`),
+      span.status?.message ? Template.getDetailRowMarkup('Status message', text(span.status.message), span.status.message) : '',
+      Template.getDetailRowMarkup('Start offset', `+${Template.formatDuration(startOffsetMs)}`),
+      Template.getDetailRowMarkup('Duration', tree.isInProgress(span.spanId)
+        ? `<span class="status-in-progress">In progress</span>, ${Template.formatDuration(durationMs)} so far`
+        : Template.formatDuration(durationMs)),
+      Template.getDetailRowMarkup('Self time', Template.formatDuration(tree.getSelfTime(span))),
+      Template.getClockOffsetRowMarkup(tree, span),
+      Template.getDetailRowMarkup('Trace ID', text(span.traceId), span.traceId),
+      Template.getDetailRowMarkup('Span ID', text(span.spanId), span.spanId),
+      span.parentSpanId ? Template.getDetailRowMarkup('Parent ID', text(span.parentSpanId), span.parentSpanId) : '',
+    ].join('');
+  }
+
+  /**
+   * Clock offset applied to the span, or detected for its service while raw times are shown.
+   */
+  static getClockOffsetRowMarkup(tree: TraceTree, span: Span): string {
+    const applied = tree.clockOffsetOf.get(span.spanId);
+    if (applied !== undefined) {
+      return Template.getDetailRowMarkup('Clock offset', `${Template.formatClockOffset(applied)} applied to correct clock skew`);
+    }
+    const detected = tree.getClockSkewOffsets().get(tree.serviceNameOf.get(span.spanId) || 'unknown-service');
+    return detected !== undefined
+      ? Template.getDetailRowMarkup('Clock offset', `${Template.formatClockOffset(detected)} detected, showing raw times`)
+      : '';
+  }
+
+  static getScopeMarkup(scope?: InstrumentationScope): string {
+    if (!scope) return '';
+    return [
+      Template.getDetailRowMarkup('Name', Template.escapeHtml(scope.name || '(unknown)'), scope.name),
+      scope.version ? Template.getDetailRowMarkup('Version', Template.escapeHtml(scope.version), scope.version) : '',
+      Template.getAttributeRowsMarkup(scope.attributes ?? []),
+    ].join('');
+  }
+
+  static getSpanEventsDetailMarkup(span: Span): string {
+    return (span.events ?? []).map(event => `
+      <div class="detail-item">
+        <div class="detail-item-header">
+          <span class="detail-item-time">+${Template.formatDuration(nanoDiffToMilli(event.timeUnixNano, span.startTimeUnixNano))}</span>
+          <strong>${Template.escapeHtml(event.name)}</strong>
+        </div>
+        ${Template.getAttributeRowsMarkup(event.attributes ?? [])}
+      </div>
+    `).join('');
+  }
+
+  static getSpanLinksDetailMarkup(span: Span): string {
+    return (span.links ?? []).map(link => `
+      <div class="detail-item">
+        <button class="link-nav" data-trace-id="${Template.escapeHtml(link.traceId)}" data-span-id="${Template.escapeHtml(link.spanId)}">Open linked span &#8599;</button>
+        ${Template.getDetailRowMarkup('Trace ID', Template.escapeHtml(link.traceId), link.traceId)}
+        ${Template.getDetailRowMarkup('Span ID', Template.escapeHtml(link.spanId), link.spanId)}
+        ${Template.getAttributeRowsMarkup(link.attributes ?? [])}
+      </div>
+    `).join('');
+  }
+
+  static getDroppedCountsMarkup(span: Span, tree: TraceTree): string {
+    const counts: Array<[string, number | undefined]> = [
+      ['Attributes', span.droppedAttributesCount],
+      ['Events', span.droppedEventsCount],
+      ['Links', span.droppedLinksCount],
+      ['Resource attributes', tree.resourceOf.get(span.spanId)?.droppedAttributesCount],
+    ];
+    return counts
+      .filter(([, count]) => count)
+      .map(([label, count]) => Template.getDetailRowMarkup(label, String(count)))
+      .join('');
+  }
+
+  static getSpanDetailMarkup(tree: TraceTree, span: Span, activeTab: 'details' | 'json' = 'details'): string {
+    const logs = tree.logsOf.get(span.spanId) ?? [];
+    const resource = tree.resourceOf.get(span.spanId);
+    const json = JSON.stringify(span, null, 2);
+
+    return `
+      <div class="detail-tabs" role="tablist">
+        <button class="detail-tab${activeTab === 'details' ? ' active' : ''}" data-tab="details" role="tab" aria-selected="${activeTab === 'details'}">Details</button>
+        <button class="detail-tab${activeTab === 'json' ? ' active' : ''}" data-tab="json" role="tab" aria-selected="${activeTab === 'json'}">Raw JSON</button>
+      </div>
+      <div class="detail-tab-panel" data-tab="details"${activeTab === 'details' ? '' : ' hidden'}>
+        ${Template.getDetailSectionMarkup('Overview', Template.getSpanOverviewMarkup(tree, span, tree.getTimeRange().min))}
+        ${Template.getDetailSectionMarkup('Attributes', Template.getAttributeRowsMarkup(span.attributes), span.attributes.length)}
+        ${Template.getDetailSectionMarkup('Resource', Template.getAttributeRowsMarkup(resource?.attributes ?? []), resource?.attributes.length ?? 0)}
+        ${Template.getDetailSectionMarkup('Instrumentation Scope', Template.getScopeMarkup(tree.scopeOf.get(span.spanId)))}
+        ${Template.getDetailSectionMarkup('Events', Template.getSpanEventsDetailMarkup(span), span.events?.length ?? 0)}
+        ${Template.getDetailSectionMarkup('Links', Template.getSpanLinksDetailMarkup(span), span.links?.length ?? 0)}
+        ${Template.getDetailSectionMarkup('Dropped', Template.getDroppedCountsMarkup(span, tree))}
+        ${Template.getLogEntriesMarkup(span, logs)}
+      </div>
+      <div class="detail-tab-panel" data-tab="json"${activeTab === 'json' ? '' : ' hidden'}>
+        <div class="detail-json-actions">${Template.getCopyButtonMarkup(json)}</div>
+        <pre class="detail-json">${Template.escapeHtml(json)}</pre>
+      </div>
+    `;
+  }
+
+  // ---------------------------------------------------------------------------
+  // Trace comparison
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Bar for one side of a diff row, positioned by its offset from the start of
+   * its own trace. Both sides share `scaleMs` so bar lengths are comparable.
+   */
+  static getDiffBarMarkup(tree: TraceTree, span: Span | undefined, traceStartMs: number, scaleMs: number, config: VisualizationConfig): string {
+    if (!span) return '<div class="diff-track"></div>';
+
+    const startMs = nanoToMilli(span.startTimeUnixNano) - traceStartMs;
+    const durationMs = nanoDiffToMilli(span.endTimeUnixNano, span.startTimeUnixNano);
+    const left = scaleMs > 0 ? (startMs / scaleMs) * 100 : 0;
+    const width = scaleMs > 0 ? (durationMs / scaleMs) * 100 : 100;
+    const color = tree.isPlaceholder(span.spanId) ? '' : `--span-color:${Template.escapeHtml(getSpanColor(tree, span, config).color)}`;
+
+    return `
+      <div class="diff-track">
+        <div class="diff-bar${color ? '' : ' placeholder'}" style="left:${left}%;width:${Math.max(width, 0.5)}%;${color}"
+             title="${Template.escapeHtml(span.name)}\nDuration: ${Template.formatDuration(durationMs)}"></div>
+        <span class="diff-bar-duration" style="left:${Math.min(left + Math.max(width, 0.5), 100)}%">${Template.formatDuration(durationMs)}</span>
+      </div>
+    `;
+  }
+
+  /**
+   * Duration change, e.g. "+12.00ms (+15%)", classed as slower or faster.
+   */
+  static getDiffDeltaMarkup(deltaMs: number, beforeMs: number): string {
+    const direction = deltaMs > 0 ? 'slower' : deltaMs < 0 ? 'faster' : 'unchanged';
+    const sign = deltaMs > 0 ? '+' : deltaMs < 0 ? '&minus;' : '';
+    const percent = beforeMs > 0 ? ` (${sign}${Math.abs((deltaMs / beforeMs) * 100).toFixed(0)}%)` : '';
+
+    return `<span class="diff-delta ${direction}">${sign}${Template.formatDuration(Math.abs(deltaMs))}${percent}</span>`;
+  }
+
+  static getDiffRowMarkup(diff: TraceDiff, row: SpanDiffRow, scaleMs: number, config: VisualizationConfig): string {
+    const span = (row.after ?? row.before)!;
+    const tree = row.after ? diff.after : diff.before;
+    const serviceName = tree.serviceNameOf.get(span.spanId) || 'unknown-service';
+    const statusIcon = Template.getStatusIcon(span.status?.code ?? 0);
+
+    return `
+      <div class="diff-row ${row.status}" role="row" aria-level="${row.level + 1}">
+        <div class="diff-label" role="rowheader" style="padding-left:${row.level * 16 + 5}px" title="${Template.escapeHtml(row.key)}">
           <span class="status-icon">${statusIcon}</span>
-          <strong>${serviceName}</strong>
-          <br/>
-          <small>${span.name}</small>
+          <strong>${Template.escapeHtml(serviceName)}</strong>
+          <small>${Template.escapeHtml(span.name)}</small>
+        </div>
+        <div role="gridcell">${Template.getDiffBarMarkup(diff.before, row.before, diff.before.getTimeRange().min, scaleMs, config)}</div>
+        <div role="gridcell">${Template.getDiffBarMarkup(diff.after, row.after, diff.after.getTimeRange().min, scaleMs, config)}</div>
+        <div class="diff-delta-cell" role="gridcell">
+          ${row.status === 'matched'
+            ? Template.getDiffDeltaMarkup(row.deltaMs, nanoDiffToMilli(row.before!.endTimeUnixNano, row.before!.startTimeUnixNano))
+            : `<span class="diff-badge ${row.status}">${row.status}</span>`}
+        </div>
+      </div>
+    `;
+  }
+
+  static getTraceDiffMarkup(diff: TraceDiff, config: VisualizationConfig, hideUnchanged: boolean = false): string {
+    const beforeRange = diff.before.getTimeRange();
+    const afterRange = diff.after.getTimeRange();
+    const beforeMs = beforeRange.max - beforeRange.min;
+    const afterMs = afterRange.max - afterRange.min;
+    const scaleMs = Math.max(beforeMs, afterMs);
+    const rows = hideUnchanged ? diff.rows.filter(row => row.status !== 'matched' || row.deltaMs !== 0) : diff.rows;
+
+    return `
+      <div class="trace-viewer trace-diff" part="viewer"${Template.getBackgroundStyle(config)}>
+        <div class="trace-header" part="header">
+          <h3>Trace comparison</h3>
+          <div class="trace-stats">
+            <span>Before: ${diff.before.roots[0]?.traceId ?? 'N/A'} (${Template.formatDuration(beforeMs)})</span>
+            <span>After: ${diff.after.roots[0]?.traceId ?? 'N/A'} (${Template.formatDuration(afterMs)})</span>
+            <span>Change: ${Template.getDiffDeltaMarkup(afterMs - beforeMs, beforeMs)}</span>
+            <span class="diff-badge added">${diff.addedCount} added</span>
+            <span class="diff-badge removed">${diff.removedCount} removed</span>
+          </div>
+          <label class="diff-hide-unchanged">
+            <input type="checkbox" class="diff-hide-unchanged-toggle"${hideUnchanged ? ' checked' : ''}/>
+            Hide unchanged
+          </label>
         </div>
+        <div class="diff-grid" part="diff-grid" role="treegrid" aria-label="Span comparison">
+          <div class="diff-row diff-columns" role="row">
+            <div role="columnheader">Span</div>
+            <div role="columnheader">Before</div>
+            <div role="columnheader">After</div>
+            <div role="columnheader">Change</div>
+          </div>
+          ${rows.map(row => Template.getDiffRowMarkup(diff, row, scaleMs, config)).join('')}
+        </div>
+      </div>
+    `;
+  }
+
+  static getDiffEmptyMarkup(): string {
+    return `
+      <div class="trace-viewer" part="viewer">
+        <div class="message empty" part="message">
+          Set the <code>before-url</code> and <code>after-url</code> attributes or the
+          <code>.beforeData</code> and <code>.afterData</code> properties to compare two traces.
+        </div>
+      </div>
+    `;
+  }
+
+  // ---------------------------------------------------------------------------
+  // Export
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Standalone SVG image of the waterfall. All rows are drawn, not only the
+   * ones in the viewport, and the timeline is as wide as it is at the given
+   * zoom level, so the image shows the whole trace at the on-screen scale.
+   * Styles are inlined so the file renders outside the component.
+   */
+  static getTraceSvgMarkup(
+    tree: TraceTree,
+    rows: Array<{ span: Span; level: number }>,
+    config: VisualizationConfig,
+    options: TraceExportOptions,
+  ): string {
+    const timeRange = tree.getTimeRange();
+    const duration = timeRange.max - timeRange.min || 1;
+    const timelineWidth = Math.round(options.timelineWidth * (options.zoomLevel ?? 1));
+    const rowHeight = config.spanHeight + config.spanPadding;
+    const chartTop = EXPORT_HEADER_HEIGHT + EXPORT_AXIS_HEIGHT;
+    const width = EXPORT_LABEL_WIDTH + timelineWidth + 20;
+    const height = chartTop + rows.length * rowHeight + EXPORT_LEGEND_HEIGHT;
+    const xOf = (ms: number) => EXPORT_LABEL_WIDTH + ((ms - timeRange.min) / duration) * timelineWidth;
+    const criticalPath = options.showCriticalPath ? tree.getCriticalPath() : undefined;
+    const dimmed = (spanId: string) => (options.highlightIds?.size && !options.highlightIds.has(spanId))
+      || (criticalPath !== undefined && !criticalPath.has(spanId));
+
+    const ticks = Template.calculateTickCount(timelineWidth);
+    const tickMarkup = Array.from({ length: ticks + 1 }, (_, i) => {
+      const x = EXPORT_LABEL_WIDTH + (i / ticks) * timelineWidth;
+      return `
+        <line x1="${x}" y1="${EXPORT_HEADER_HEIGHT + 16}" x2="${x}" y2="${height - EXPORT_LEGEND_HEIGHT}" stroke="#eee" />
+        <text x="${i === ticks ? x - 4 : x + 4}" y="${EXPORT_HEADER_HEIGHT + 12}" font-size="11" fill="#666"
+              text-anchor="${i === ticks ? 'end' : 'start'}">${Template.formatDurationText((duration * i) / ticks)}</text>
       `;
     }).join('');
+
+    const rowMarkup = rows.map(({ span, level }, index) => {
+      const y = chartTop + index * rowHeight;
+      const placeholder = tree.isPlaceholder(span.spanId);
+      const serviceName = tree.serviceNameOf.get(span.spanId) || 'unknown-service';
+      const startMs = nanoToMilli(span.startTimeUnixNano);
+      const spanDuration = nanoDiffToMilli(span.endTimeUnixNano, span.startTimeUnixNano);
+      const x = xOf(startMs);
+      const barWidth = Math.max((spanDuration / duration) * timelineWidth, 1);
+      const indent = 8 + level * 14;
+      const maxChars = Math.max(4, Math.floor((EXPORT_LABEL_WIDTH - indent - 8) / 6.5));
+      const label = placeholder ? `Missing span ${span.spanId}` : `${span.name} (${serviceName})`;
+      const truncated = label.length > maxChars ? `${label.slice(0, maxChars - 1)}\u2026` : label;
+      const durationText = `${tree.isInProgress(span.spanId) ? '\u2265 ' : ''}${Template.formatDurationText(spanDuration)}`;
+      // Durations go to the right of the bar, or inside its end when it reaches the edge
+      const durationX = x + barWidth + 4 + durationText.length * 6 > width ? x + barWidth - 4 : x + barWidth + 4;
+      const segments = criticalPath?.get(span.spanId) ?? [];
+
+      return `
+        <g${dimmed(span.spanId) ? ' opacity="0.3"' : ''}>
+          <title>${Template.escapeHtml(label)}</title>
+          <text x="${indent}" y="${y + config.spanHeight / 2 + 4}" font-size="12" fill="${placeholder ? '#999' : '#333'}"${span.status?.code === 2 ? ' font-weight="bold"' : ''}>${Template.escapeHtml(truncated)}</text>
+          <rect x="${x}" y="${y}" width="${barWidth}" height="${config.spanHeight}" rx="3"
+                ${placeholder
+                  ? 'fill="none" stroke="#999" stroke-dasharray="4 3"'
+                  : `fill="${Template.escapeHtml(getSpanColor(tree, span, config).color)}"${span.status?.code === 2 ? ' stroke="#c62828" stroke-width="2"' : ''}`} />
+          ${segments.map(segment => `
+            <rect x="${xOf(nanoToMilli(segment.startTimeUnixNano))}" y="${y}" height="${config.spanHeight}" fill="rgba(211, 47, 47, 0.85)"
+                  width="${Math.max((nanoDiffToMilli(segment.endTimeUnixNano, segment.startTimeUnixNano) / duration) * timelineWidth, 1)}" />
+          `).join('')}
+          <text x="${durationX}" y="${y + config.spanHeight / 2 + 4}" font-size="11" fill="#666"
+                text-anchor="${durationX < x + barWidth ? 'end' : 'start'}">${durationText}</text>
+        </g>
+      `;
+    }).join('');
+
+    let legendX = EXPORT_LABEL_WIDTH;
+    const legendMarkup = getColorLegend(config, tree)
+      .map(({ label, color }) => {
+        const x = legendX;
+        legendX += 28 + label.length * 7;
+        // Entries that do not fit on the legend line are left out
+        if (legendX > width + 28) return '';
+        return `
+          <rect x="${x}" y="${height - 22}" width="14" height="14" rx="3" fill="${Template.escapeHtml(color)}" />
+          <text x="${x + 20}" y="${height - 11}" font-size="12" fill="#666">${Template.escapeHtml(label)}</text>
+        `;
+      }).join('');
+
+    const traceId = tree.roots[0]?.traceId || 'N/A';
+    return `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}" font-family="${Template.escapeHtml(EXPORT_FONT)}">
+  <rect width="100%" height="100%" fill="${Template.escapeHtml(config.backgroundColor || '#ffffff')}" />
+  <text x="8" y="22" font-size="15" font-weight="bold" fill="#333">Trace: ${Template.escapeHtml(traceId)}</text>
+  <text x="${EXPORT_LABEL_WIDTH}" y="22" font-size="12" fill="#666">${rows.length} spans shown &#183; Duration: ${Template.formatDurationText(timeRange.max - timeRange.min)}</text>
+  <line x1="0" y1="${chartTop - 2}" x2="${width}" y2="${chartTop - 2}" stroke="#ddd" stroke-width="2" />
+  ${tickMarkup}
+  ${rowMarkup}
+  ${legendMarkup}
+</svg>
+`;
+  }
+
+  /**
+   * Self-contained page showing the given data in `<trace-visualizer>`. The
+   * component bundle is inlined so the page works offline; it is tagged with
+   * an ID so the page can export itself again.
+   */
+  static getStandaloneHtmlMarkup(
+    title: string,
+    componentSource: string,
+    state: {
+      traceData?: TraceData;
+      logsData?: LogsData;
+      config: Partial<VisualizationConfig>;
+      traceId?: string;
+      view: TraceViewMode;
+      theme?: 'light' | 'dark' | 'auto';
+    },
+  ): string {
+    // Keep embedded code and JSON from closing their script elements
+    const script = componentSource.replace(/<\/(script)/gi, '<\\/$1');
+    const json = JSON.stringify(state).replace(/</g, '\\u003c');
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>${Template.escapeHtml(title)}</title>
+  <style>body { margin: 0; padding: 20px; font-family: ${EXPORT_FONT}; color-scheme: ${state.theme === 'auto' ? 'light dark' : state.theme ?? 'light'}; background: Canvas; }</style>
+</head>
+<body>
+  <trace-visualizer view="${state.view}"${state.theme ? ` theme="${state.theme}"` : ''}></trace-visualizer>
+  <script type="application/json" id="trace-visualizer-state">${json}</script>
+  <script type="module" id="trace-visualizer-source">${script}</script>
+  <script type="module">
+    const state = JSON.parse(document.getElementById('trace-visualizer-state').textContent);
+    const viewer = document.querySelector('trace-visualizer');
+    viewer.config = state.config;
+    if (state.logsData) viewer.logsData = state.logsData;
+    if (state.traceData) viewer.traceData = state.traceData;
+    if (state.traceId) viewer.selectTrace(state.traceId);
+  </script>
+</body>
+</html>
+`;
   }
 
   // ---------------------------------------------------------------------------
   // Top-level markup
   // ---------------------------------------------------------------------------
 
-  static getTraceMarkup(tree: TraceTree, config: VisualizationConfig): string {
-    const flatSpans = tree.flatten();
+  static getTraceListRowsMarkup(summaries: TraceSummary[]): string {
+    if (summaries.length === 0) {
+      return `<tr><td colspan="6" class="trace-list-empty">No matching traces</td></tr>`;
+    }
+
+    return summaries.map(summary => `
+      <tr class="trace-list-row${summary.hasError ? ' error' : ''}" data-trace-id="${Template.escapeHtml(summary.traceId)}" title="${Template.escapeHtml(summary.traceId)}">
+        <td>${Template.formatTimestamp(summary.startMs)}</td>
+        <td><span class="status-icon">${Template.getStatusIcon(summary.hasError ? 2 : 0)}</span>${Template.escapeHtml(summary.rootName)}</td>
+        <td>${Template.escapeHtml(summary.serviceName)}</td>
+        <td>${Template.formatDuration(summary.durationMs)}</td>
+        <td>${summary.spanCount}${summary.missingSpanCount > 0 ? ` <span class="trace-warning" title="${summary.missingSpanCount} missing span(s)">&#9888;</span>` : ''}</td>
+        <td>${summary.hasError ? 'Yes' : ''}</td>
+      </tr>
+    `).join('');
+  }
+
+  static getTraceListMarkup(
+    summaries: TraceSummary[],
+    sort: { key: keyof TraceSummary; descending: boolean },
+    filter: string,
+    config: VisualizationConfig
+  ): string {
+    const columns: Array<[keyof TraceSummary, string]> = [
+      ['startMs', 'Start Time'],
+      ['rootName', 'Root Span'],
+      ['serviceName', 'Service'],
+      ['durationMs', 'Duration'],
+      ['spanCount', 'Spans'],
+      ['hasError', 'Error'],
+    ];
+    const headers = columns.map(([key, label]) => {
+      const indicator = sort.key === key ? (sort.descending ? ' &#9660;' : ' &#9650;') : '';
+      return `<th data-sort="${key}">${label}${indicator}</th>`;
+    }).join('');
+
+    return `
+      <div class="trace-viewer" part="viewer"${Template.getBackgroundStyle(config)}>
+        <div class="trace-header" part="header">
+          <h3>Traces: ${summaries.length}</h3>
+          <input class="trace-list-filter" type="search" placeholder="Filter by trace ID, root span or service" value="${Template.escapeHtml(filter)}"/>
+        </div>
+        <table class="trace-list" part="trace-list">
+          <thead><tr>${headers}</tr></thead>
+          <tbody class="trace-list-body"></tbody>
+        </table>
+      </div>
+    `;
+  }
+
+  static getSearchBarMarkup(query: string, hideNonMatching: boolean): string {
+    return `
+      <div class="trace-search" part="search">
+        <input class="trace-search-input" type="search"
+               placeholder="Search spans, e.g. checkout service:db status:error duration>100ms"
+               value="${Template.escapeHtml(query)}"/>
+        <span class="trace-search-count"></span>
+        <button class="trace-search-btn trace-search-prev" title="Previous match">&#9650;</button>
+        <button class="trace-search-btn trace-search-next" title="Next match">&#9660;</button>
+        <label class="trace-search-hide">
+          <input type="checkbox" class="trace-search-hide-toggle"${hideNonMatching ? ' checked' : ''}/>
+          Hide non-matching
+        </label>
+      </div>
+    `;
+  }
+
+  /**
+   * Waterfall skeleton. Span rows and labels are not included: only the rows in
+   * the viewport are rendered, into `.span-rows` and `.span-labels-container`.
+   */
+  static getTraceMarkup(tree: TraceTree, config: VisualizationConfig, view: TraceViewOptions = {}): string {
+    const allSpans = tree.flatten();
     const timeRange = tree.getTimeRange();
-    const chartHeight = flatSpans.length * (config.spanHeight + config.spanPadding);
-    const totalHeight = Math.max(chartHeight + 100, config.height);
     const traceId = tree.roots[0]?.traceId || 'N/A';
+    const missingSpanCount = tree.orphanRoots.length;
+    const duplicateSpanCount = allSpans.filter(({ span }) => tree.duplicateSpanIds.has(span.spanId)).length;
+    const mode = view.mode ?? 'waterfall';
 
     return `
-      <div class="trace-viewer" style="background: ${config.backgroundColor};">
-        <div class="trace-header">
-          <h3>Trace: ${traceId}</h3>
+      <div class="trace-viewer" part="viewer"${Template.getBackgroundStyle(config)}>
+        <div class="trace-header" part="header">
+          ${view.showTraceListLink ? '<button class="trace-list-back" title="Back to trace list">&larr; All traces</button>' : ''}
+          <h3>Trace: ${Template.escapeHtml(traceId)}</h3>
           <div class="trace-stats">
-            <span>Total Spans: ${flatSpans.length}</span>
+            <span>Total Spans: ${allSpans.length - missingSpanCount}</span>
             <span>Duration: ${Template.formatDuration(timeRange.max - timeRange.min)}</span>
+            ${missingSpanCount > 0 ? `
+              <span class="trace-warning" title="Spans referenced as parents but not present in the data are shown as placeholders">
+                &#9888; ${missingSpanCount} missing span${missingSpanCount === 1 ? '' : 's'}
+              </span>
+            ` : ''}
+            ${duplicateSpanCount > 0 ? `
+              <span class="trace-warning" title="Spans present in more than one batch were merged, keeping the copy that ends last">
+                &#9888; ${duplicateSpanCount} duplicate span${duplicateSpanCount === 1 ? '' : 's'} merged
+              </span>
+            ` : ''}
+            ${Template.getClockSkewMarkup(tree)}
+            ${view.stream ? Template.getStreamStatusMarkup(view.stream) : ''}
           </div>
+          ${Template.getViewTabsMarkup(mode)}
+          ${mode === 'waterfall' ? `
+            ${Template.getSearchBarMarkup(view.searchQuery ?? '', view.hideNonMatching ?? false)}
+            ${Template.getTreeControlsMarkup(view.collapseDepth ?? 2)}
+          ` : ''}
+          ${view.highlightLabel && mode !== 'breakdown' && mode !== 'graph' ? Template.getHighlightChipMarkup(view.highlightLabel) : ''}
+          ${view.dependencyFilter && mode === 'waterfall' ? Template.getDependencyFilterChipMarkup(tree, view.dependencyFilter) : ''}
         </div>
-        <div class="trace-body" style="height: ${totalHeight}px;">
-          <div class="trace-chart">
-            <div class="span-labels-container">
-              ${Template.getSpanLabelsMarkup(tree, flatSpans, config)}
-            </div>
-            <div class="timeline-overlay">
-              <div class="timeline">
-                ${Template.getTimelineTicksMarkup(timeRange, Template.calculateTickCount())}
-              </div>
-            </div>
-            <div class="timeline-clip">
-              <div class="timeline-container">
-                ${Template.getSpansMarkup(flatSpans, timeRange, config)}
-              </div>
+        ${mode === 'breakdown'
+          ? Template.getBreakdownMarkup(tree, view.breakdown ?? { groupBy: 'operation', sort: { key: 'selfMs', descending: true } })
+          : mode === 'flame'
+            ? Template.getFlameBodyMarkup(tree, config, view.flameZoomSpanId)
+            : mode === 'graph'
+              ? Template.getServiceGraphMarkup(tree, view.dependencyFilter)
+              : Template.getWaterfallBodyMarkup(tree, config, view.flatSpans ?? allSpans)}
+      </div>
+    `;
+  }
+
+  static getViewTabsMarkup(mode: TraceViewMode): string {
+    const tabs: Array<[TraceViewMode, string]> = [
+      ['waterfall', 'Waterfall'],
+      ['flame', 'Flame graph'],
+      ['breakdown', 'Breakdown'],
+      ['graph', 'Service graph'],
+    ];
+    return `
+      <div class="view-tabs" part="tabs" role="tablist">
+        ${tabs.map(([value, label]) => `
+          <button class="view-tab${value === mode ? ' active' : ''}" part="tab" role="tab" data-view="${value}"
+                  aria-selected="${value === mode}">${label}</button>
+        `).join('')}
+      </div>
+    `;
+  }
+
+  /**
+   * Clock skew notice with a toggle between adjusted and raw times. Whether the
+   * tree is adjusted is read from its applied offsets.
+   */
+  static getClockSkewMarkup(tree: TraceTree): string {
+    const adjustedServices = new Set([...tree.clockOffsetOf.keys()].map(spanId => tree.serviceNameOf.get(spanId)));
+    const adjusted = adjustedServices.size > 0;
+    const count = adjusted ? adjustedServices.size : tree.getClockSkewOffsets().size;
+    if (count === 0) return '';
+
+    return `
+      <span class="trace-warning" title="Spans of ${count === 1 ? 'this service start' : 'these services start'} before or end after their parent span in another service">
+        &#9888; Clock skew in ${count} service${count === 1 ? '' : 's'}${adjusted ? ', adjusted' : ''}
+      </span>
+      <button class="tree-btn clock-skew-toggle" aria-pressed="${adjusted}">${adjusted ? 'Show raw times' : 'Adjust clocks'}</button>
+    `;
+  }
+
+  static getStreamStatusMarkup(state: StreamState): string {
+    const labels: Record<StreamState['status'], string> = {
+      connecting: 'Connecting&hellip;',
+      live: 'Live',
+      closed: 'Stream ended',
+      error: 'Stream error',
+    };
+    return `
+      <span class="stream-status ${state.status}" role="status"${state.message ? ` title="${Template.escapeHtml(state.message)}"` : ''}>
+        ${labels[state.status]}
+      </span>
+    `;
+  }
+
+  static getHighlightChipMarkup(label: string): string {
+    return `
+      <div class="highlight-chip">
+        Highlighting ${Template.escapeHtml(label)}
+        <button class="highlight-clear" title="Clear highlight">&times;</button>
+      </div>
+    `;
+  }
+
+  static getDependencyFilterChipMarkup(tree: TraceTree, filter: { source: string; target: string }): string {
+    const edge = tree.getServiceGraph().edges.find(e => e.source === filter.source && e.target === filter.target);
+    const count = edge?.count ?? 0;
+    return `
+      <div class="highlight-chip">
+        Showing ${count} call${count === 1 ? '' : 's'} from ${Template.escapeHtml(filter.source)} to ${Template.escapeHtml(filter.target)}
+        <button class="dependency-filter-clear" title="Show all spans">&times;</button>
+      </div>
+    `;
+  }
+
+  /**
+   * Waterfall skeleton. Span rows and labels are not included: only the rows in
+   * the viewport are rendered, into `.span-rows` and `.span-labels-container`.
+   */
+  static getWaterfallBodyMarkup(tree: TraceTree, config: VisualizationConfig, flatSpans: Array<{ span: Span; level: number }>): string {
+    const timeRange = tree.getTimeRange();
+    const chartHeight = flatSpans.length * (config.spanHeight + config.spanPadding);
+    const totalHeight = Math.max(chartHeight + 100, config.height);
+    const linkLayerHeight = 50 + chartHeight;
+    const traceId = tree.roots[0]?.traceId || 'N/A';
+
+    return `
+      <div class="trace-body" style="height: ${totalHeight}px;">
+        <div class="trace-chart" part="chart" role="treegrid" tabindex="0" aria-rowcount="${flatSpans.length}"
+             aria-label="Spans of trace ${Template.escapeHtml(traceId)}. Arrow keys move between spans, Enter opens details, plus and minus zoom.">
+          <div class="span-labels-container" role="rowgroup"></div>
+          <div class="timeline-overlay" part="timeline" aria-hidden="true">
+            <div class="timeline">
+              ${Template.getTimelineTicksMarkup(timeRange, Template.calculateTickCount())}
             </div>
           </div>
-          <div class="detail-panel" style="width: ${config.detailPanelWidth};">
-            <div class="detail-panel-header">
-              <h3>Span Details</h3>
-              <button class="detail-panel-close" title="Close">&times;</button>
+          <div class="timeline-clip" aria-hidden="true">
+            <div class="timeline-container">
+              <div class="span-rows"></div>
+              <svg class="link-layer" viewBox="0 0 100 ${linkLayerHeight}" preserveAspectRatio="none" style="height:${linkLayerHeight}px"></svg>
             </div>
-            <div class="detail-content"></div>
           </div>
         </div>
+        ${Template.getDetailPanelMarkup(config)}
+      </div>
+    `;
+  }
+
+  static getDetailPanelMarkup(config: VisualizationConfig): string {
+    return `
+      <div class="detail-panel" part="detail-panel" style="width: ${config.detailPanelWidth};">
+        <div class="detail-panel-header">
+          <h3>Span Details</h3>
+          <button class="detail-panel-close" title="Close">&times;</button>
+        </div>
+        <div class="detail-content"></div>
+      </div>
+    `;
+  }
+
+  /**
+   * Flame (icicle) graph: time runs left to right, nesting top to bottom, and
+   * spans share rows wherever they do not overlap. When zoomed to a span, its
+   * interval fills the width and ancestors are clipped to it.
+   */
+  static getFlameBodyMarkup(tree: TraceTree, config: VisualizationConfig, zoomSpanId?: string): string {
+    const { rowOf, rowCount } = tree.getFlameLayout();
+    const traceRange = tree.getTimeRange();
+    const zoomSpan = zoomSpanId ? tree.getSpan(zoomSpanId) : undefined;
+    const visible = zoomSpan
+      ? { min: nanoToMilli(zoomSpan.startTimeUnixNano), max: Math.max(nanoToMilli(zoomSpan.endTimeUnixNano), nanoToMilli(zoomSpan.startTimeUnixNano) + 0.001) }
+      : traceRange;
+    const windowMs = visible.max - visible.min || 1;
+
+    const nodes: string[] = [];
+    for (const { span } of tree.flatten()) {
+      const startMs = nanoToMilli(span.startTimeUnixNano);
+      const durationMs = nanoDiffToMilli(span.endTimeUnixNano, span.startTimeUnixNano);
+      const left = Math.max(0, (startMs - visible.min) / windowMs) * 100;
+      const right = Math.min(1, (startMs + durationMs - visible.min) / windowMs) * 100;
+      // Nodes outside the visible window or too narrow to see are not drawn
+      if (right <= 0 || left >= 100 || (right - left < 0.05 && durationMs > 0)) continue;
+
+      const placeholder = tree.isPlaceholder(span.spanId);
+      const serviceName = tree.serviceNameOf.get(span.spanId) || 'unknown-service';
+      const color = placeholder ? '' : `--span-color:${Template.escapeHtml(getSpanColor(tree, span, config).color)}`;
+      const classes = ['flame-node'];
+      if (placeholder) classes.push('placeholder');
+      if (span.status?.code === 2) classes.push('error');
+      if (tree.isInProgress(span.spanId)) classes.push('in-progress');
+
+      nodes.push(`
+        <div class="${classes.join(' ')}" part="flame-node" data-span-id="${Template.escapeHtml(span.spanId)}"
+             style="left:${left}%;width:${Math.max(right - left, 0.2)}%;top:${rowOf.get(span.spanId)! * FLAME_ROW_HEIGHT}px;height:${FLAME_ROW_HEIGHT - 2}px;${color}"
+             title="${Template.escapeHtml(placeholder ? `Missing span ${span.spanId}` : `${span.name}\n${serviceName}\nDuration: ${tree.isInProgress(span.spanId) ? 'in progress, ' : ''}${Template.formatDuration(durationMs)}`)}">
+          <span class="flame-label">${Template.escapeHtml(placeholder ? 'Missing span' : span.name)}</span>
+        </div>
+      `);
+    }
+
+    const ticks = Template.calculateTickCount();
+    const tickMarkup = Array.from({ length: ticks + 1 }, (_, i) => `
+      <div class="timeline-tick" style="left: ${(i / ticks) * 100}%;">
+        <div class="timeline-label">${Template.formatDuration(visible.min - traceRange.min + (windowMs * i) / ticks)}</div>
+      </div>
+    `).join('');
+
+    return `
+      <div class="trace-body flame-body">
+        <div class="flame-chart" part="flame-graph">
+          <div class="flame-toolbar">
+            ${zoomSpan ? `
+              Zoomed to <strong>${Template.escapeHtml(zoomSpan.name)}</strong>
+              <button class="tree-btn flame-reset">Reset zoom</button>
+            ` : 'Click a span to select it, double-click to zoom to it'}
+          </div>
+          <div class="flame-axis" aria-hidden="true">${tickMarkup}</div>
+          <div class="flame-nodes" style="height:${rowCount * FLAME_ROW_HEIGHT}px">
+            ${nodes.join('')}
+          </div>
+        </div>
+        ${Template.getDetailPanelMarkup(config)}
       </div>
     `;
   }
 
+  /**
+   * Sortable latency breakdown table. Rows carry the service (and span name)
+   * they aggregate so a click can highlight the matching spans.
+   */
+  static getBreakdownMarkup(tree: TraceTree, options: BreakdownViewOptions): string {
+    const { key, descending } = options.sort;
+    const rows = tree.getLatencyBreakdown(options.groupBy).sort((a, b) => {
+      const left = a[key] ?? '';
+      const right = b[key] ?? '';
+      const order = typeof left === 'string' && typeof right === 'string'
+        ? left.localeCompare(right)
+        : Number(left) - Number(right);
+      return descending ? -order : order;
+    });
+
+    const columns: Array<[keyof LatencyBreakdownRow, string]> = [
+      ['serviceName', 'Service'],
+      ...(options.groupBy === 'operation' ? [['name', 'Operation'] as [keyof LatencyBreakdownRow, string]] : []),
+      ['count', 'Count'],
+      ['totalMs', 'Total'],
+      ['selfMs', 'Self time'],
+      ['percentOfTrace', '% of trace'],
+      ['errorCount', 'Errors'],
+    ];
+    const headers = columns.map(([column, label]) => {
+      const indicator = key === column ? (descending ? ' &#9660;' : ' &#9650;') : '';
+      const ariaSort = key === column ? ` aria-sort="${descending ? 'descending' : 'ascending'}"` : '';
+      return `<th data-sort="${column}"${ariaSort}>${label}${indicator}</th>`;
+    }).join('');
+
+    const body = rows.map(row => `
+      <tr class="breakdown-row" tabindex="0" data-service="${Template.escapeHtml(row.serviceName)}"
+          ${row.name !== undefined ? `data-name="${Template.escapeHtml(row.name)}"` : ''}
+          title="Highlight these spans in the waterfall">
+        <td>${Template.escapeHtml(row.serviceName)}</td>
+        ${options.groupBy === 'operation' ? `<td>${Template.escapeHtml(row.name ?? '')}</td>` : ''}
+        <td>${row.count}</td>
+        <td>${Template.formatDuration(row.totalMs)}</td>
+        <td>${Template.formatDuration(row.selfMs)}</td>
+        <td>
+          <div class="breakdown-share">
+            <div class="breakdown-share-bar" style="width:${Math.min(row.percentOfTrace, 100)}%"></div>
+            <span>${row.percentOfTrace.toFixed(1)}%</span>
+          </div>
+        </td>
+        <td class="${row.errorCount > 0 ? 'status-error' : ''}">${row.errorCount}</td>
+      </tr>
+    `).join('');
+
+    return `
+      <div class="breakdown" part="breakdown">
+        <div class="breakdown-controls">
+          Group by
+          <button class="tree-btn breakdown-group${options.groupBy === 'service' ? ' active' : ''}" data-group-by="service">Service</button>
+          <button class="tree-btn breakdown-group${options.groupBy === 'operation' ? ' active' : ''}" data-group-by="operation">Operation</button>
+        </div>
+        <table class="trace-list breakdown-table">
+          <thead><tr>${headers}</tr></thead>
+          <tbody>${body}</tbody>
+        </table>
+      </div>
+    `;
+  }
+
+  /**
+   * Service dependency graph as an SVG node-link diagram. Services are laid out
+   * in columns by call depth from the services owning the root spans; calls
+   * back to an earlier column are drawn as arcs below the nodes. Edges carry
+   * the service pair they aggregate so a click can filter the waterfall.
+   */
+  static getServiceGraphMarkup(tree: TraceTree, activeEdge?: { source: string; target: string }): string {
+    const { services, edges } = tree.getServiceGraph();
+    if (services.length === 0) {
+      return '<div class="service-graph" part="service-graph"><div class="message empty" part="message">No services in this trace.</div></div>';
+    }
+
+    // Breadth-first depth from the entry services; services not reached stay in the first column
+    const depthOf = new Map<string, number>();
+    const entries = tree.realRoots.map(root => tree.serviceNameOf.get(root.spanId) || 'unknown-service');
+    const queue = entries.length > 0 ? [...new Set(entries)] : [services[0].serviceName];
+    queue.forEach(service => depthOf.set(service, 0));
+    for (let i = 0; i < queue.length; i++) {
+      for (const edge of edges) {
+        if (edge.source === queue[i] && !depthOf.has(edge.target)) {
+          depthOf.set(edge.target, depthOf.get(queue[i])! + 1);
+          queue.push(edge.target);
+        }
+      }
+    }
+
+    const columns: string[][] = [];
+    for (const { serviceName } of services) {
+      const depth = depthOf.get(serviceName) ?? 0;
+      (columns[depth] ??= []).push(serviceName);
+    }
+    const positionOf = new Map<string, { x: number; y: number; column: number }>();
+    columns.forEach((column, depth) => column.forEach((serviceName, row) => {
+      positionOf.set(serviceName, {
+        x: GRAPH_MARGIN + depth * GRAPH_COLUMN_WIDTH,
+        y: GRAPH_MARGIN + row * GRAPH_ROW_HEIGHT,
+        column: depth,
+      });
+    }));
+
+    const maxRows = Math.max(...columns.map(column => column?.length ?? 0));
+    const hasBackEdges = edges.some(edge => positionOf.get(edge.target)!.column < positionOf.get(edge.source)!.column);
+    const width = GRAPH_MARGIN * 2 + (columns.length - 1) * GRAPH_COLUMN_WIDTH + GRAPH_NODE_WIDTH;
+    const height = GRAPH_MARGIN * 2 + (maxRows - 1) * GRAPH_ROW_HEIGHT + GRAPH_NODE_HEIGHT + (hasBackEdges ? GRAPH_ROW_HEIGHT / 2 : 0);
+    const maxCount = Math.max(1, ...edges.map(edge => edge.count));
+
+    const edgeMarkup = edges.map(edge => {
+      const from = positionOf.get(edge.source)!;
+      const to = positionOf.get(edge.target)!;
+      const { path, labelX, labelY } = Template.getServiceEdgeGeometry(from, to, edge.source === edge.target);
+      const active = activeEdge?.source === edge.source && activeEdge?.target === edge.target;
+      const classes = ['dependency-edge'];
+      if (edge.errorCount > 0) classes.push('error');
+      if (active) classes.push('active');
+      const summary = `${edge.count} call${edge.count === 1 ? '' : 's'} from ${edge.source} to ${edge.target}, `
+        + `average ${Template.formatDuration(edge.avgMs)}, total ${Template.formatDuration(edge.totalMs)}`
+        + `${edge.errorCount > 0 ? `, ${edge.errorCount} with errors` : ''}`;
+
+      return `
+        <g class="${classes.join(' ')}" data-source="${Template.escapeHtml(edge.source)}" data-target="${Template.escapeHtml(edge.target)}"
+           tabindex="0" role="button" aria-pressed="${active}" aria-label="${Template.escapeHtml(summary)}. Show these spans in the waterfall.">
+          <title>${Template.escapeHtml(summary)}</title>
+          <path class="dependency-edge-hit" d="${path}" />
+          <path class="dependency-edge-line" d="${path}" style="stroke-width:${1.5 + (edge.count / maxCount) * 3}px" marker-end="url(#dependency-arrow${edge.errorCount > 0 ? '-error' : ''})" />
+          <text class="dependency-edge-label" x="${labelX}" y="${labelY}" text-anchor="middle">
+            ${edge.count}&times; &middot; ${Template.formatDuration(edge.avgMs)}${edge.errorCount > 0 ? ` &middot; ${edge.errorCount} err` : ''}
+          </text>
+        </g>
+      `;
+    }).join('');
+
+    const nodeMarkup = services.map(service => {
+      const { x, y } = positionOf.get(service.serviceName)!;
+      const label = service.serviceName.length > 22 ? `${service.serviceName.slice(0, 21)}\u2026` : service.serviceName;
+      return `
+        <g class="dependency-node${service.errorCount > 0 ? ' error' : ''}" data-service="${Template.escapeHtml(service.serviceName)}"
+           transform="translate(${x},${y})" tabindex="0" role="button"
+           aria-label="${Template.escapeHtml(`${service.serviceName}, ${service.spanCount} spans. Highlight them in the waterfall.`)}">
+          <title>${Template.escapeHtml(`${service.serviceName}\n${service.spanCount} spans${service.errorCount > 0 ? `, ${service.errorCount} errors` : ''}`)}</title>
+          <rect width="${GRAPH_NODE_WIDTH}" height="${GRAPH_NODE_HEIGHT}" rx="6" />
+          <text class="dependency-node-name" x="${GRAPH_NODE_WIDTH / 2}" y="18" text-anchor="middle">${Template.escapeHtml(label)}</text>
+          <text class="dependency-node-count" x="${GRAPH_NODE_WIDTH / 2}" y="34" text-anchor="middle">
+            ${service.spanCount} span${service.spanCount === 1 ? '' : 's'}${service.errorCount > 0 ? ` &middot; ${service.errorCount} errors` : ''}
+          </text>
+        </g>
+      `;
+    }).join('');
+
+    return `
+      <div class="service-graph" part="service-graph">
+        <div class="service-graph-toolbar">
+          ${edges.length > 0
+            ? 'Click a call to show its spans in the waterfall, or a service to highlight its spans'
+            : 'No calls between services in this trace'}
+        </div>
+        <svg class="service-graph-svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}"
+             role="group" aria-label="Service dependency graph">
+          <defs>
+            <marker id="dependency-arrow" viewBox="0 0 10 10" refX="9" refY="5" markerWidth="8" markerHeight="8" orient="auto-start-reverse">
+              <path d="M 0 0 L 10 5 L 0 10 z" class="dependency-arrow" />
+            </marker>
+            <marker id="dependency-arrow-error" viewBox="0 0 10 10" refX="9" refY="5" markerWidth="8" markerHeight="8" orient="auto-start-reverse">
+              <path d="M 0 0 L 10 5 L 0 10 z" class="dependency-arrow error" />
+            </marker>
+          </defs>
+          ${edgeMarkup}
+          ${nodeMarkup}
+        </svg>
+      </div>
+    `;
+  }
+
+  /**
+   * Path of a service graph edge and the position of its label. Forward edges
+   * run from the right of the caller to the left of the callee, edges within a
+   * column bulge out to its right, edges to an earlier column arc below both
+   * nodes, and self-calls loop above the node.
+   */
+  static getServiceEdgeGeometry(
+    from: { x: number; y: number; column: number },
+    to: { x: number; y: number; column: number },
+    selfCall: boolean,
+  ): { path: string; labelX: number; labelY: number } {
+    if (selfCall) {
+      const left = from.x + GRAPH_NODE_WIDTH / 2 - 20;
+      const right = from.x + GRAPH_NODE_WIDTH / 2 + 20;
+      return {
+        path: `M ${left} ${from.y} C ${left - 10} ${from.y - 30}, ${right + 10} ${from.y - 30}, ${right} ${from.y}`,
+        labelX: from.x + GRAPH_NODE_WIDTH / 2,
+        labelY: from.y - 26,
+      };
+    }
+
+    if (to.column > from.column) {
+      const x1 = from.x + GRAPH_NODE_WIDTH;
+      const y1 = from.y + GRAPH_NODE_HEIGHT / 2;
+      const x2 = to.x;
+      const y2 = to.y + GRAPH_NODE_HEIGHT / 2;
+      const bend = (x2 - x1) / 2;
+      return {
+        path: `M ${x1} ${y1} C ${x1 + bend} ${y1}, ${x2 - bend} ${y2}, ${x2} ${y2}`,
+        labelX: (x1 + x2) / 2,
+        labelY: (y1 + y2) / 2 - 6,
+      };
+    }
+
+    if (to.column === from.column) {
+      const x = from.x + GRAPH_NODE_WIDTH;
+      const y1 = from.y + GRAPH_NODE_HEIGHT / 2;
+      const y2 = to.y + GRAPH_NODE_HEIGHT / 2;
+      const side = x + GRAPH_MARGIN;
+      return {
+        path: `M ${x} ${y1} C ${side} ${y1}, ${side} ${y2}, ${x} ${y2}`,
+        labelX: x + (GRAPH_MARGIN * 3) / 4,
+        labelY: (y1 + y2) / 2,
+      };
+    }
+
+    const x1 = from.x + GRAPH_NODE_WIDTH / 2;
+    const y1 = from.y + GRAPH_NODE_HEIGHT;
+    const x2 = to.x + GRAPH_NODE_WIDTH / 2;
+    const y2 = to.y + GRAPH_NODE_HEIGHT;
+    const bottom = Math.max(y1, y2) + GRAPH_ROW_HEIGHT / 2;
+    return {
+      path: `M ${x1} ${y1} C ${x1} ${bottom}, ${x2} ${bottom}, ${x2} ${y2}`,
+      labelX: (x1 + x2) / 2,
+      // Midpoint of the cubic Bezier curve
+      labelY: (y1 + 3 * bottom + 3 * bottom + y2) / 8 - 4,
+    };
+  }
+
   static getLoadingMarkup(): string {
     return `
-      <div class="trace-viewer">
-        <div class="message loading">
+      <div class="trace-viewer" part="viewer">
+        <div class="message loading" part="message">
           <div class="spinner"></div>
           Loading trace data...
         </div>
@@ -253,28 +1535,38 @@ export class Template {
 
   static getEmptyMarkup(): string {
     return `
-      <div class="trace-viewer">
-        <div class="message empty">
+      <div class="trace-viewer" part="viewer">
+        <div class="message empty" part="message">
           No trace data loaded. Set the <code>data-url</code> attribute or use <code>.traceData</code> property.
         </div>
       </div>
     `;
   }
 
-  static getZoomControlsMarkup(config: VisualizationConfig): string {
+  static getZoomControlsMarkup(config: VisualizationConfig, showCriticalPath: boolean, tree?: TraceTree): string {
     return `
-      ${config.showLegend ? Template.getLegendMarkup(config) : ''}
-      <button class="zoom-btn zoom-in" title="Zoom In">+</button>
-      <span class="zoom-display">100%</span>
-      <button class="zoom-btn zoom-out" title="Zoom Out">&minus;</button>
-      <button class="zoom-btn zoom-reset" title="Reset (or double-click)">Reset</button>
+      ${config.showLegend ? Template.getLegendMarkup(config, tree) : ''}
+      <button class="zoom-btn critical-path-toggle${showCriticalPath ? ' active' : ''}" aria-pressed="${showCriticalPath}" title="Highlight the critical path">Critical Path</button>
+      <button class="zoom-btn zoom-in" title="Zoom In (+)" aria-label="Zoom in">+</button>
+      <span class="zoom-display" aria-live="polite">100%</span>
+      <button class="zoom-btn zoom-out" title="Zoom Out (-)" aria-label="Zoom out">&minus;</button>
+      <button class="zoom-btn zoom-reset" title="Reset (0 or double-click)">Reset</button>
+      <div class="download-menu">
+        <button class="zoom-btn download-toggle" aria-haspopup="menu" aria-expanded="false" title="Download the whole trace">Download</button>
+        <div class="download-options" role="menu" hidden>
+          <button class="download-option" role="menuitem" data-format="svg">SVG image</button>
+          <button class="download-option" role="menuitem" data-format="png">PNG image</button>
+          <button class="download-option" role="menuitem" data-format="html">Standalone HTML</button>
+          <div class="download-error" role="alert"></div>
+        </div>
+      </div>
     `;
   }
 
   static getErrorMarkup(message: string): string {
     return `
-      <div class="trace-viewer">
-        <div class="message error">
+      <div class="trace-viewer" part="viewer">
+        <div class="message error" part="message">
           <strong>Error:</strong> ${message}
         </div>
       </div>
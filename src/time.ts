@@ -1,3 +1,10 @@
 export function nanoToMilli(nano: string): number {
   return Number(BigInt(nano) / 1_000_000n);
 }
+
+/**
+ * Difference between two nanosecond timestamps in (fractional) milliseconds.
+ */
+export function nanoDiffToMilli(end: string, start: string): number {
+  return Number(BigInt(end) - BigInt(start)) / 1_000_000;
+}
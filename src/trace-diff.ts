@@ -0,0 +1,109 @@
+import { Span } from './opentelemetry/trace.js';
+import { nanoToMilli, nanoDiffToMilli } from './time.js';
+import { TraceTree } from './trace-tree.js';
+
+export type SpanDiffStatus = 'matched' | 'added' | 'removed';
+
+/**
+ * One aligned row of a trace comparison. Matched rows have a span on both
+ * sides; added rows only exist in the "after" trace, removed rows only in the
+ * "before" trace.
+ */
+export interface SpanDiffRow {
+  /** Tree path of service/name pairs identifying the span on both sides. */
+  key: string;
+  level: number;
+  status: SpanDiffStatus;
+  before?: Span;
+  after?: Span;
+  /** Duration change in ms (after minus before); 0 unless matched. */
+  deltaMs: number;
+}
+
+/**
+ * Side-by-side alignment of two traces.
+ */
+export class TraceDiff {
+  private constructor(
+    public readonly before: TraceTree,
+    public readonly after: TraceTree,
+    public readonly rows: SpanDiffRow[],
+  ) {}
+
+  /**
+   * Align the spans of two traces.
+   *
+   * Spans are matched by service name plus span name plus the path of such
+   * pairs from the root, so a span only matches if its ancestors matched too.
+   * Siblings sharing a service and name are matched in start order. Each level
+   * is ordered by start offset from the beginning of its trace.
+   */
+  static compare(before: TraceTree, after: TraceTree): TraceDiff {
+    const rows: SpanDiffRow[] = [];
+    const beforeStart = before.getTimeRange().min;
+    const afterStart = after.getTimeRange().min;
+
+    const visit = (beforeSpans: Span[], afterSpans: Span[], parentKey: string, level: number) => {
+      const beforeByKey = this.keyChildren(before, beforeSpans, parentKey);
+      const afterByKey = this.keyChildren(after, afterSpans, parentKey);
+      const keys = [...new Set([...afterByKey.keys(), ...beforeByKey.keys()])];
+      const offsetOf = (key: string) => {
+        const afterSpan = afterByKey.get(key);
+        return afterSpan
+          ? nanoToMilli(afterSpan.startTimeUnixNano) - afterStart
+          : nanoToMilli(beforeByKey.get(key)!.startTimeUnixNano) - beforeStart;
+      };
+      keys.sort((a, b) => offsetOf(a) - offsetOf(b));
+
+      for (const key of keys) {
+        const beforeSpan = beforeByKey.get(key);
+        const afterSpan = afterByKey.get(key);
+        rows.push({
+          key,
+          level,
+          status: !beforeSpan ? 'added' : !afterSpan ? 'removed' : 'matched',
+          before: beforeSpan,
+          after: afterSpan,
+          deltaMs: beforeSpan && afterSpan ? durationOf(afterSpan) - durationOf(beforeSpan) : 0,
+        });
+        visit(
+          beforeSpan ? before.childrenOf.get(beforeSpan.spanId) ?? [] : [],
+          afterSpan ? after.childrenOf.get(afterSpan.spanId) ?? [] : [],
+          key,
+          level + 1,
+        );
+      }
+    };
+    visit(before.roots, after.roots, '', 0);
+
+    return new TraceDiff(before, after, rows);
+  }
+
+  get addedCount(): number {
+    return this.rows.filter(row => row.status === 'added').length;
+  }
+
+  get removedCount(): number {
+    return this.rows.filter(row => row.status === 'removed').length;
+  }
+
+  /**
+   * Children keyed by their tree path, in start order. Repeated service/name
+   * pairs under one parent get an occurrence suffix.
+   */
+  private static keyChildren(tree: TraceTree, spans: Span[], parentKey: string): Map<string, Span> {
+    const occurrences = new Map<string, number>();
+    const keyed = new Map<string, Span>();
+    for (const span of spans) {
+      const label = `${tree.serviceNameOf.get(span.spanId) || 'unknown-service'}:${span.name}`;
+      const occurrence = occurrences.get(label) ?? 0;
+      occurrences.set(label, occurrence + 1);
+      keyed.set(`${parentKey}/${label}#${occurrence}`, span);
+    }
+    return keyed;
+  }
+}
+
+function durationOf(span: Span): number {
+  return nanoDiffToMilli(span.endTimeUnixNano, span.startTimeUnixNano);
+}
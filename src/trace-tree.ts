@@ -2,44 +2,189 @@ import {
   TraceData,
   ResourceSpans,
   Span,
+  SpanKind,
 } from './opentelemetry/trace.js';
+import { LogsData, LogRecord } from './opentelemetry/logs.js';
 import {
+  InstrumentationScope,
   extractString,
 } from './opentelemetry/common.js';
-import { nanoToMilli } from './time.js';
+import { Resource } from './opentelemetry/resource.js';
+import { nanoToMilli, nanoDiffToMilli } from './time.js';
+import { logsToTraceData, compareLogRecords } from './converters/logs-to-trace.js';
+
+/**
+ * One-line overview of a single trace, used by the trace picker.
+ */
+export interface TraceSummary {
+  traceId: string;
+  rootName: string;
+  serviceName: string;
+  startMs: number;
+  durationMs: number;
+  spanCount: number;
+  missingSpanCount: number;
+  hasError: boolean;
+}
+
+/**
+ * A stretch of a span's lifetime during which that span, and none of its
+ * children, determined the end-to-end latency.
+ */
+export interface CriticalPathSegment {
+  startTimeUnixNano: string;
+  endTimeUnixNano: string;
+}
+
+/**
+ * Aggregated latency of the spans of one service, or of one operation
+ * (service plus span name) when `name` is set.
+ */
+export interface LatencyBreakdownRow {
+  serviceName: string;
+  name?: string;
+  count: number;
+  totalMs: number;
+  /** Time not covered by child spans, summed over all matching spans. */
+  selfMs: number;
+  /** Self time as a percentage of the trace duration. */
+  percentOfTrace: number;
+  errorCount: number;
+}
+
+/**
+ * Row assignment of a flame (icicle) chart.
+ */
+export interface FlameLayout {
+  rowOf: Map<string, number>;
+  rowCount: number;
+}
+
+/**
+ * Calls from one service to another, aggregated over a trace.
+ */
+export interface ServiceDependency {
+  source: string;
+  target: string;
+  count: number;
+  /** Duration of the called (target side) spans, summed over all calls. */
+  totalMs: number;
+  avgMs: number;
+  /** Calls where either the caller or the called span failed. */
+  errorCount: number;
+  /** Caller and called spans of every call, in tree order. */
+  spanIds: string[];
+}
+
+/**
+ * Service-to-service call graph of a trace.
+ */
+export interface ServiceGraph {
+  /** Services in order of first appearance, with their span counts. */
+  services: Array<{ serviceName: string; spanCount: number; errorCount: number }>;
+  edges: ServiceDependency[];
+}
 
 /**
  * Tree structure for organizing raw OTel Spans for visualization.
  * Spans are kept as-is; relationships and metadata are stored in lookup maps.
+ *
+ * Spans whose parent is not in the data are grouped under a placeholder span
+ * standing in for the missing parent, so a trace with dropped spans still shows
+ * as one tree. Placeholders are always roots ("orphan roots"), and their IDs are
+ * kept in `placeholderIds`.
  */
 export class TraceTree {
   constructor(
     public readonly roots: Span[],
     public readonly childrenOf: Map<string, Span[]>,
     public readonly serviceNameOf: Map<string, string>,
+    public readonly logsOf: Map<string, LogRecord[]> = new Map(),
+    public readonly placeholderIds: Set<string> = new Set(),
+    public readonly resourceOf: Map<string, Resource> = new Map(),
+    public readonly scopeOf: Map<string, InstrumentationScope> = new Map(),
+    public readonly duplicateSpanIds: Set<string> = new Set(),
+    public readonly inProgressIds: Set<string> = new Set(),
+    public readonly clockOffsetOf: Map<string, number> = new Map(),
   ) {}
 
-  static build(traceData: TraceData): TraceTree {
+  private criticalPath?: Map<string, CriticalPathSegment[]>;
+  private descendantCounts?: Map<string, number>;
+  private spanIndex?: Map<string, Span>;
+  private flatSpans?: Array<{ span: Span; level: number }>;
+  private timeRange?: { min: number; max: number };
+  private flameLayout?: FlameLayout;
+  private serviceGraph?: ServiceGraph;
+  private clockSkewOffsets?: Map<string, number>;
+
+  /**
+   * Build a tree from trace data. When logs are given, records carrying a
+   * spanId are correlated with that span and kept in time order in `logsOf`.
+   *
+   * A span may appear in several batches, e.g. when an exporter retried or
+   * flushed it both while running and once finished. Copies sharing a spanId
+   * are collapsed into the one that ends last (the first one on a tie), and
+   * the ID is recorded in `duplicateSpanIds`.
+   *
+   * Spans that have not ended yet (no end time, or one before the start) are
+   * drawn up to the latest time seen in their trace: they are replaced by a
+   * copy ending there, and their IDs are kept in `inProgressIds`.
+   */
+  static build(traceData: TraceData, logsData?: LogsData): TraceTree {
     const spanMap = new Map<string, Span>();
     const childrenOf = new Map<string, Span[]>();
     const serviceNameOf = new Map<string, string>();
+    const resourceOf = new Map<string, Resource>();
+    const scopeOf = new Map<string, InstrumentationScope>();
+    const duplicateSpanIds = new Set<string>();
+    const inProgressIds = new Set<string>();
     const roots: Span[] = [];
 
-    // Collect all spans and build service name map
+    // Collect all spans and build service name, resource and scope maps
     for (const resourceSpan of traceData.resourceSpans) {
       const serviceName = this.extractServiceName(resourceSpan);
 
       for (const scopeSpan of resourceSpan.scopeSpans) {
         for (const span of scopeSpan.spans) {
+          const existing = spanMap.get(span.spanId);
+          if (existing) {
+            duplicateSpanIds.add(span.spanId);
+            if (BigInt(span.endTimeUnixNano || 0) <= BigInt(existing.endTimeUnixNano || 0)) continue;
+          }
           spanMap.set(span.spanId, span);
           serviceNameOf.set(span.spanId, serviceName);
+          resourceOf.set(span.spanId, resourceSpan.resource);
+          scopeOf.set(span.spanId, scopeSpan.scope);
         }
       }
     }
 
-    // Build tree structure
+    // Close running spans at the latest time seen in their trace
+    const latestOf = new Map<string, bigint>();
+    const observe = (traceId: string, time: string | undefined) => {
+      const value = BigInt(time || 0);
+      if (value > (latestOf.get(traceId) ?? 0n)) latestOf.set(traceId, value);
+    };
+    for (const span of spanMap.values()) {
+      observe(span.traceId, span.startTimeUnixNano);
+      if (!this.isRunning(span)) observe(span.traceId, span.endTimeUnixNano);
+      for (const event of span.events ?? []) observe(span.traceId, event.timeUnixNano);
+    }
+    for (const span of spanMap.values()) {
+      if (this.isRunning(span)) {
+        spanMap.set(span.spanId, { ...span, endTimeUnixNano: latestOf.get(span.traceId)!.toString() });
+        inProgressIds.add(span.spanId);
+      }
+    }
+
+    // Build tree structure, creating a placeholder for each missing parent
+    const placeholders = new Map<string, Span>();
     for (const span of spanMap.values()) {
-      if (span.parentSpanId && spanMap.has(span.parentSpanId)) {
+      if (span.parentSpanId) {
+        if (!spanMap.has(span.parentSpanId)) {
+          const placeholder = placeholders.get(span.parentSpanId);
+          placeholders.set(span.parentSpanId, this.widenPlaceholder(placeholder, span));
+        }
         const siblings = childrenOf.get(span.parentSpanId) || [];
         siblings.push(span);
         childrenOf.set(span.parentSpanId, siblings);
@@ -47,18 +192,92 @@ export class TraceTree {
         roots.push(span);
       }
     }
+    roots.push(...placeholders.values());
 
     // Sort children by start time
-    const compareByStartTime = (a: Span, b: Span) => {
-      const diff = BigInt(a.startTimeUnixNano) - BigInt(b.startTimeUnixNano);
-      return diff < 0n ? -1 : diff > 0n ? 1 : 0;
-    };
     for (const children of childrenOf.values()) {
-      children.sort(compareByStartTime);
+      children.sort(this.compareByStartTime);
+    }
+    roots.sort(this.compareByStartTime);
+
+    return new TraceTree(
+      roots,
+      childrenOf,
+      serviceNameOf,
+      this.correlateLogs(spanMap, logsData),
+      new Set(placeholders.keys()),
+      resourceOf,
+      scopeOf,
+      duplicateSpanIds,
+      inProgressIds,
+    );
+  }
+
+  private static compareByStartTime(a: Span, b: Span): number {
+    const diff = BigInt(a.startTimeUnixNano) - BigInt(b.startTimeUnixNano);
+    return diff < 0n ? -1 : diff > 0n ? 1 : 0;
+  }
+
+  /**
+   * Whether a span as exported has not ended yet.
+   */
+  private static isRunning(span: Span): boolean {
+    return !span.endTimeUnixNano || BigInt(span.endTimeUnixNano) < BigInt(span.startTimeUnixNano);
+  }
+
+  /**
+   * Create or grow the placeholder for a missing parent so that it covers the given child.
+   */
+  private static widenPlaceholder(placeholder: Span | undefined, child: Span): Span {
+    if (!placeholder) {
+      return {
+        traceId: child.traceId,
+        spanId: child.parentSpanId!,
+        name: 'Missing span',
+        kind: SpanKind.Unspecified,
+        startTimeUnixNano: child.startTimeUnixNano,
+        endTimeUnixNano: child.endTimeUnixNano,
+        attributes: [],
+      };
+    }
+
+    if (BigInt(child.startTimeUnixNano) < BigInt(placeholder.startTimeUnixNano)) {
+      placeholder.startTimeUnixNano = child.startTimeUnixNano;
+    }
+    if (BigInt(child.endTimeUnixNano) > BigInt(placeholder.endTimeUnixNano)) {
+      placeholder.endTimeUnixNano = child.endTimeUnixNano;
     }
-    roots.sort(compareByStartTime);
+    return placeholder;
+  }
 
-    return new TraceTree(roots, childrenOf, serviceNameOf);
+  /**
+   * Build a tree from structured logs, deriving one span per traceId/spanId pair.
+   * The records are correlated with their span as logs rather than copied into
+   * its events, so each is shown once, with its severity.
+   */
+  static fromLogs(logsData: LogsData): TraceTree {
+    return this.build(logsToTraceData(logsData, false), logsData);
+  }
+
+  private static correlateLogs(spanMap: Map<string, Span>, logsData?: LogsData): Map<string, LogRecord[]> {
+    const logsOf = new Map<string, LogRecord[]>();
+    if (!logsData) return logsOf;
+
+    for (const resourceLog of logsData.resourceLogs) {
+      for (const scopeLog of resourceLog.scopeLogs) {
+        for (const record of scopeLog.logRecords) {
+          if (!record.spanId || !spanMap.has(record.spanId)) continue;
+          const records = logsOf.get(record.spanId) || [];
+          records.push(record);
+          logsOf.set(record.spanId, records);
+        }
+      }
+    }
+
+    for (const records of logsOf.values()) {
+      records.sort(compareLogRecords);
+    }
+    return logsOf;
   }
 
   private static extractServiceName(resourceSpan: ResourceSpans): string {
@@ -68,24 +287,456 @@ export class TraceTree {
     return extractString(serviceNameAttr?.value) ?? 'unknown-service';
   }
 
-  flatten(): Array<{ span: Span; level: number }> {
+  /**
+   * Split the forest into one tree per traceId. The resulting trees share this
+   * tree's lookup maps, which are keyed by spanId and therefore trace-agnostic.
+   * Traces are ordered by the start time of their earliest root.
+   */
+  splitByTrace(): TraceTree[] {
+    const rootsOf = new Map<string, Span[]>();
+    for (const root of this.roots) {
+      const roots = rootsOf.get(root.traceId) || [];
+      roots.push(root);
+      rootsOf.set(root.traceId, roots);
+    }
+
+    return [...rootsOf.values()].map(roots => this.withRoots(roots));
+  }
+
+  /**
+   * A tree over a subset of this tree's roots, sharing its lookup maps.
+   */
+  private withRoots(roots: Span[]): TraceTree {
+    return new TraceTree(
+      roots,
+      this.childrenOf,
+      this.serviceNameOf,
+      this.logsOf,
+      this.placeholderIds,
+      this.resourceOf,
+      this.scopeOf,
+      this.duplicateSpanIds,
+      this.inProgressIds,
+      this.clockOffsetOf,
+    );
+  }
+
+  isPlaceholder(spanId: string): boolean {
+    return this.placeholderIds.has(spanId);
+  }
+
+  isInProgress(spanId: string): boolean {
+    return this.inProgressIds.has(spanId);
+  }
+
+  /** Roots that are genuine root spans of their trace. */
+  get realRoots(): Span[] {
+    return this.roots.filter(root => !this.isPlaceholder(root.spanId));
+  }
+
+  /** Placeholder roots standing in for parents missing from the data. */
+  get orphanRoots(): Span[] {
+    return this.roots.filter(root => this.isPlaceholder(root.spanId));
+  }
+
+  getSummary(): TraceSummary {
+    const flat = this.flatten().filter(({ span }) => !this.isPlaceholder(span.spanId));
+    const timeRange = this.getTimeRange();
+    const root = this.realRoots[0] ?? this.roots[0];
+
+    return {
+      traceId: root?.traceId ?? '',
+      rootName: root?.name ?? '',
+      serviceName: (root && this.serviceNameOf.get(root.spanId)) || 'unknown-service',
+      startMs: timeRange.min,
+      durationMs: timeRange.max - timeRange.min,
+      spanCount: flat.length,
+      missingSpanCount: this.orphanRoots.length,
+      hasError: flat.some(({ span }) => span.status?.code === 2),
+    };
+  }
+
+  /**
+   * Depth-first list of spans with their nesting level.
+   * Descendants of spans listed in `collapsed` are left out.
+   * The fully expanded list is cached and must not be modified by callers.
+   */
+  flatten(collapsed?: Set<string>): Array<{ span: Span; level: number }> {
+    const expanded = !collapsed || collapsed.size === 0;
+    if (expanded && this.flatSpans) return this.flatSpans;
+
     const result: Array<{ span: Span; level: number }> = [];
 
-    const walk = (spans: Span[], level: number) => {
-      for (const span of spans) {
-        result.push({ span, level });
-        const children = this.childrenOf.get(span.spanId);
-        if (children && children.length > 0) {
-          walk(children, level + 1);
+    // Depth-first with an explicit stack, so chains of any depth fit; children
+    // are pushed in reverse to be visited in order
+    const stack = this.roots.map(span => ({ span, level: 0 })).reverse();
+    while (stack.length > 0) {
+      const entry = stack.pop()!;
+      result.push(entry);
+      const children = this.childrenOf.get(entry.span.spanId);
+      if (children && children.length > 0 && !collapsed?.has(entry.span.spanId)) {
+        for (let i = children.length - 1; i >= 0; i--) {
+          stack.push({ span: children[i], level: entry.level + 1 });
         }
       }
-    };
+    }
 
-    walk(this.roots, 0);
+    if (expanded) this.flatSpans = result;
     return result;
   }
 
+  getSpan(spanId: string): Span | undefined {
+    if (!this.spanIndex) {
+      this.spanIndex = new Map(this.flatten().map(({ span }) => [span.spanId, span]));
+    }
+    return this.spanIndex.get(spanId);
+  }
+
+  /**
+   * Spans from the root down to (but excluding) the given span.
+   */
+  getAncestors(spanId: string): Span[] {
+    const ancestors: Span[] = [];
+    let parentId = this.getSpan(spanId)?.parentSpanId;
+    while (parentId) {
+      const parent = this.getSpan(parentId);
+      if (!parent || ancestors.includes(parent)) break;
+      ancestors.unshift(parent);
+      parentId = parent.parentSpanId;
+    }
+    return ancestors;
+  }
+
+  getDescendantCount(spanId: string): number {
+    if (!this.descendantCounts) {
+      const counts = new Map<string, number>();
+      const count = (span: Span): number => {
+        let total = 0;
+        for (const child of this.childrenOf.get(span.spanId) || []) {
+          total += 1 + count(child);
+        }
+        counts.set(span.spanId, total);
+        return total;
+      };
+      this.roots.forEach(count);
+      this.descendantCounts = counts;
+    }
+    return this.descendantCounts.get(spanId) ?? 0;
+  }
+
+  /**
+   * Time in milliseconds during which the span was not covered by any of its children.
+   */
+  getSelfTime(span: Span): number {
+    const start = BigInt(span.startTimeUnixNano);
+    const end = BigInt(span.endTimeUnixNano);
+    const intervals = (this.childrenOf.get(span.spanId) || [])
+      .map(child => [
+        BigInt(child.startTimeUnixNano) > start ? BigInt(child.startTimeUnixNano) : start,
+        BigInt(child.endTimeUnixNano) < end ? BigInt(child.endTimeUnixNano) : end,
+      ])
+      .filter(([childStart, childEnd]) => childEnd > childStart)
+      .sort((a, b) => (a[0] < b[0] ? -1 : a[0] > b[0] ? 1 : 0));
+
+    let covered = 0n;
+    let cursor = start;
+    for (const [childStart, childEnd] of intervals) {
+      const from = childStart > cursor ? childStart : cursor;
+      if (childEnd > from) {
+        covered += childEnd - from;
+        cursor = childEnd;
+      }
+    }
+
+    return Number(end - start - covered) / 1_000_000;
+  }
+
+  /**
+   * Where the time of the trace goes, per service or per operation.
+   * Placeholder spans are left out. Rows are in order of first appearance.
+   */
+  getLatencyBreakdown(groupBy: 'service' | 'operation'): LatencyBreakdownRow[] {
+    const { min, max } = this.getTimeRange();
+    const traceMs = max - min;
+    const rows = new Map<string, LatencyBreakdownRow>();
+
+    for (const { span } of this.flatten()) {
+      if (this.isPlaceholder(span.spanId)) continue;
+
+      const serviceName = this.serviceNameOf.get(span.spanId) || 'unknown-service';
+      const key = groupBy === 'service' ? serviceName : `${serviceName}\u0000${span.name}`;
+      let row = rows.get(key);
+      if (!row) {
+        row = {
+          serviceName,
+          name: groupBy === 'operation' ? span.name : undefined,
+          count: 0,
+          totalMs: 0,
+          selfMs: 0,
+          percentOfTrace: 0,
+          errorCount: 0,
+        };
+        rows.set(key, row);
+      }
+      row.count++;
+      row.totalMs += nanoDiffToMilli(span.endTimeUnixNano, span.startTimeUnixNano);
+      row.selfMs += this.getSelfTime(span);
+      if (span.status?.code === 2) row.errorCount++;
+    }
+
+    for (const row of rows.values()) {
+      row.percentOfTrace = traceMs > 0 ? (row.selfMs / traceMs) * 100 : 0;
+    }
+    return [...rows.values()];
+  }
+
+  /**
+   * Compact row layout for a flame (icicle) chart: each span goes on the first
+   * row below its parent where it does not overlap a span already placed, so
+   * sequential siblings share a row and only concurrent ones stack.
+   */
+  getFlameLayout(): FlameLayout {
+    if (this.flameLayout) return this.flameLayout;
+
+    const origin = this.roots.length > 0
+      ? this.roots.reduce((min, root) => (BigInt(root.startTimeUnixNano) < min ? BigInt(root.startTimeUnixNano) : min), BigInt(this.roots[0].startTimeUnixNano))
+      : 0n;
+    const rows: Array<Array<[number, number]>> = [];
+    const rowOf = new Map<string, number>();
+
+    // Spans are placed depth-first from an explicit stack, so chains of any depth fit;
+    // children are pushed in reverse to be placed in order
+    const stack = this.roots.map(span => ({ span, minRow: 0 })).reverse();
+    while (stack.length > 0) {
+      const { span, minRow } = stack.pop()!;
+      const start = Number(BigInt(span.startTimeUnixNano) - origin);
+      const end = Math.max(Number(BigInt(span.endTimeUnixNano) - origin), start + 1);
+
+      // Intervals of a row are disjoint and sorted, so only the neighbours of the insertion point can overlap
+      let row = minRow;
+      for (; ; row++) {
+        const intervals = rows[row] ?? (rows[row] = []);
+        let low = 0;
+        let high = intervals.length;
+        while (low < high) {
+          const mid = (low + high) >> 1;
+          if (intervals[mid][0] < end) low = mid + 1;
+          else high = mid;
+        }
+        if (low > 0 && intervals[low - 1][1] > start) continue;
+
+        intervals.splice(low, 0, [start, end]);
+        break;
+      }
+      rowOf.set(span.spanId, row);
+
+      const children = this.childrenOf.get(span.spanId) || [];
+      for (let i = children.length - 1; i >= 0; i--) {
+        stack.push({ span: children[i], minRow: row + 1 });
+      }
+    }
+
+    this.flameLayout = { rowOf, rowCount: rows.length };
+    return this.flameLayout;
+  }
+
+  /**
+   * Service call graph. A call is a parent/child pair whose spans belong to
+   * different services, or a Client -> Server or Producer -> Consumer pair
+   * (which may stay within one service). A Consumer span linking to a Producer
+   * span of the trace counts as a call too, since messaging consumers are
+   * often linked to rather than parented under the producer. Placeholder spans
+   * are left out.
+   */
+  getServiceGraph(): ServiceGraph {
+    if (this.serviceGraph) return this.serviceGraph;
+
+    const serviceOf = (span: Span) => this.serviceNameOf.get(span.spanId) || 'unknown-service';
+    const services = new Map<string, ServiceGraph['services'][number]>();
+    const edges = new Map<string, ServiceDependency>();
+
+    const addCall = (caller: Span, called: Span) => {
+      const source = serviceOf(caller);
+      const target = serviceOf(called);
+      const key = `${source}\u0000${target}`;
+      let edge = edges.get(key);
+      if (!edge) {
+        edge = { source, target, count: 0, totalMs: 0, avgMs: 0, errorCount: 0, spanIds: [] };
+        edges.set(key, edge);
+      }
+      edge.count++;
+      edge.totalMs += nanoDiffToMilli(called.endTimeUnixNano, called.startTimeUnixNano);
+      if (caller.status?.code === 2 || called.status?.code === 2) edge.errorCount++;
+      edge.spanIds.push(caller.spanId, called.spanId);
+    };
+
+    for (const { span } of this.flatten()) {
+      if (this.isPlaceholder(span.spanId)) continue;
+
+      const serviceName = serviceOf(span);
+      let service = services.get(serviceName);
+      if (!service) {
+        service = { serviceName, spanCount: 0, errorCount: 0 };
+        services.set(serviceName, service);
+      }
+      service.spanCount++;
+      if (span.status?.code === 2) service.errorCount++;
+
+      const parent = span.parentSpanId ? this.getSpan(span.parentSpanId) : undefined;
+      if (parent && !this.isPlaceholder(parent.spanId) && (
+        serviceOf(parent) !== serviceName
+        || (parent.kind === SpanKind.Client && span.kind === SpanKind.Server)
+        || (parent.kind === SpanKind.Producer && span.kind === SpanKind.Consumer)
+      )) {
+        addCall(parent, span);
+      }
+
+      if (span.kind === SpanKind.Consumer) {
+        for (const link of span.links ?? []) {
+          const producer = link.traceId === span.traceId && link.spanId !== span.parentSpanId
+            ? this.getSpan(link.spanId)
+            : undefined;
+          if (producer?.kind === SpanKind.Producer && !this.isPlaceholder(producer.spanId)) {
+            addCall(producer, span);
+          }
+        }
+      }
+    }
+
+    for (const edge of edges.values()) {
+      edge.avgMs = edge.totalMs / edge.count;
+    }
+    this.serviceGraph = { services: [...services.values()], edges: [...edges.values()] };
+    return this.serviceGraph;
+  }
+
+  /**
+   * Per-service clock offsets, in nanoseconds, that fit spans called from
+   * another service inside their parent span. Each service is compared with
+   * the services calling it, starting from the services of the root spans,
+   * whose clocks are taken as the reference. A service gets the offset closest
+   * to zero that fits all such children inside their parents; when no offset
+   * fits them all (e.g. a server span longer than its client span), its spans
+   * are centered in their parents, which splits the network time evenly.
+   * Messaging (Producer/Consumer) pairs are left out, as consumers may
+   * legitimately run after the producer ended. Only services that need a
+   * non-zero offset are returned.
+   */
+  getClockSkewOffsets(): Map<string, number> {
+    if (this.clockSkewOffsets) return this.clockSkewOffsets;
+
+    const serviceOf = (span: Span) => this.serviceNameOf.get(span.spanId) || 'unknown-service';
+    // Offset window [low, high] for a child service implied by each cross-service pair
+    const windowsOf = new Map<string, Array<{ parentService: string; low: bigint; high: bigint }>>();
+    for (const { span } of this.flatten()) {
+      const parent = span.parentSpanId ? this.getSpan(span.parentSpanId) : undefined;
+      if (!parent || this.isPlaceholder(parent.spanId) || this.isInProgress(span.spanId) || this.isInProgress(parent.spanId)) continue;
+      if (parent.kind === SpanKind.Producer || span.kind === SpanKind.Consumer) continue;
+      const parentService = serviceOf(parent);
+      const service = serviceOf(span);
+      if (parentService === service) continue;
+
+      const windows = windowsOf.get(service) ?? [];
+      windows.push({
+        parentService,
+        low: BigInt(parent.startTimeUnixNano) - BigInt(span.startTimeUnixNano),
+        high: BigInt(parent.endTimeUnixNano) - BigInt(span.endTimeUnixNano),
+      });
+      windowsOf.set(service, windows);
+    }
+
+    const offsets = new Map<string, bigint>();
+    const queue = [...new Set(this.realRoots.map(serviceOf))];
+    queue.forEach(service => offsets.set(service, 0n));
+    for (let i = 0; i < queue.length; i++) {
+      const caller = queue[i];
+      for (const [service, windows] of windowsOf) {
+        if (offsets.has(service) || !windows.some(window => window.parentService === caller)) continue;
+
+        // Windows are shifted by the offsets of their (already resolved) parent services
+        const resolved = windows
+          .filter(window => offsets.has(window.parentService))
+          .map(window => ({ low: window.low + offsets.get(window.parentService)!, high: window.high + offsets.get(window.parentService)! }));
+        const low = resolved.reduce((max, window) => (window.low > max ? window.low : max), resolved[0].low);
+        const high = resolved.reduce((min, window) => (window.high < min ? window.high : min), resolved[0].high);
+        let offset: bigint;
+        if (low <= high) {
+          offset = low > 0n ? low : high < 0n ? high : 0n;
+        } else {
+          const centers = resolved.map(window => (window.low + window.high) / 2n).sort((a, b) => (a < b ? -1 : a > b ? 1 : 0));
+          offset = centers[Math.floor(centers.length / 2)];
+        }
+        offsets.set(service, offset);
+        queue.push(service);
+      }
+    }
+
+    this.clockSkewOffsets = new Map([...offsets]
+      .filter(([, offset]) => offset !== 0n)
+      .map(([service, offset]) => [service, Number(offset)]));
+    return this.clockSkewOffsets;
+  }
+
+  /**
+   * A copy of this tree with the clock offsets of `getClockSkewOffsets` applied:
+   * spans (with their events and correlated logs) of skewed services are
+   * replaced by shifted copies, and the applied offset of each shifted span is
+   * kept in `clockOffsetOf`. Returns this tree when no service is skewed.
+   */
+  withClockSkewCorrection(): TraceTree {
+    const offsets = this.getClockSkewOffsets();
+    if (offsets.size === 0) return this;
+
+    const shift = (time: string, offset: number) => (BigInt(time) + BigInt(offset)).toString();
+    const clockOffsetOf = new Map(this.clockOffsetOf);
+    const logsOf = new Map(this.logsOf);
+    const copies = new Map<string, Span>();
+    for (const { span } of this.flatten()) {
+      const offset = offsets.get(this.serviceNameOf.get(span.spanId) || 'unknown-service');
+      if (!offset || this.isPlaceholder(span.spanId)) {
+        copies.set(span.spanId, span);
+        continue;
+      }
+      copies.set(span.spanId, {
+        ...span,
+        startTimeUnixNano: shift(span.startTimeUnixNano, offset),
+        endTimeUnixNano: shift(span.endTimeUnixNano, offset),
+        events: span.events?.map(event => ({ ...event, timeUnixNano: shift(event.timeUnixNano, offset) })),
+      });
+      clockOffsetOf.set(span.spanId, (clockOffsetOf.get(span.spanId) ?? 0) + offset);
+      const logs = this.logsOf.get(span.spanId);
+      if (logs) {
+        logsOf.set(span.spanId, logs.map(record => record.timeUnixNano && record.timeUnixNano !== '0'
+          ? { ...record, timeUnixNano: shift(record.timeUnixNano, offset) }
+          : record));
+      }
+    }
+
+    const childrenOf = new Map(this.childrenOf);
+    for (const spanId of copies.keys()) {
+      const children = this.childrenOf.get(spanId);
+      if (children) {
+        childrenOf.set(spanId, children.map(child => copies.get(child.spanId) ?? child).sort(TraceTree.compareByStartTime));
+      }
+    }
+
+    return new TraceTree(
+      this.roots.map(root => copies.get(root.spanId) ?? root).sort(TraceTree.compareByStartTime),
+      childrenOf,
+      this.serviceNameOf,
+      logsOf,
+      this.placeholderIds,
+      this.resourceOf,
+      this.scopeOf,
+      this.duplicateSpanIds,
+      this.inProgressIds,
+      clockOffsetOf,
+    );
+  }
+
   getTimeRange(): { min: number; max: number } {
+    if (this.timeRange) return this.timeRange;
+
     const flat = this.flatten();
     if (flat.length === 0) {
       return { min: 0, max: 0 };
@@ -101,6 +752,65 @@ export class TraceTree {
       if (end > max) max = end;
     }
 
-    return { min, max };
+    this.timeRange = { min, max };
+    return this.timeRange;
+  }
+
+  /**
+   * Critical path segments keyed by spanId.
+   *
+   * Starting at the end of each root, the path walks backwards in time: the child
+   * that finished last is on the path (clipped to the parent's end), the gap
+   * between its end and that point is attributed to the parent, and the walk
+   * continues from the child's start with the child that finished last before
+   * it. Children still running at that point overlap a child already on the
+   * path and are skipped; time not covered by a child is the parent's own.
+   */
+  getCriticalPath(): Map<string, CriticalPathSegment[]> {
+    if (this.criticalPath) return this.criticalPath;
+
+    const segmentsOf = new Map<string, CriticalPathSegment[]>();
+    const addSegment = (span: Span, start: bigint, end: bigint) => {
+      if (end <= start) return;
+      const segments = segmentsOf.get(span.spanId) || [];
+      segments.unshift({ startTimeUnixNano: start.toString(), endTimeUnixNano: end.toString() });
+      segmentsOf.set(span.spanId, segments);
+    };
+
+    // Each span's segments only depend on the point its walk starts from, so
+    // the children to follow are queued on a stack rather than recursed into
+    const stack: Array<{ span: Span; until: bigint }> = this.roots
+      .map(root => ({ span: root, until: BigInt(root.endTimeUnixNano) }));
+    while (stack.length > 0) {
+      const { span, until } = stack.pop()!;
+      const spanStart = BigInt(span.startTimeUnixNano);
+      let cursor = until;
+      let followed = false;
+      const children = [...(this.childrenOf.get(span.spanId) || [])]
+        .sort((a, b) => {
+          const diff = BigInt(b.endTimeUnixNano) - BigInt(a.endTimeUnixNano);
+          return diff < 0n ? -1 : diff > 0n ? 1 : 0;
+        });
+
+      for (const child of children) {
+        const childStart = BigInt(child.startTimeUnixNano);
+        if (childStart >= cursor) continue;
+        // Only the first child may outlast the cursor (the parent's end); later
+        // ones must have finished before the child followed last started
+        if (followed && BigInt(child.endTimeUnixNano) > cursor) continue;
+
+        const childEnd = BigInt(child.endTimeUnixNano) < cursor ? BigInt(child.endTimeUnixNano) : cursor;
+        addSegment(span, childEnd, cursor);
+        stack.push({ span: child, until: childEnd });
+        followed = true;
+        cursor = childStart > spanStart ? childStart : spanStart;
+        if (cursor <= spanStart) break;
+      }
+
+      addSegment(span, spanStart, cursor);
+    }
+
+    this.criticalPath = segmentsOf;
+    return segmentsOf;
   }
 }
@@ -1,4 +1,4 @@
-import { SpanKind } from './opentelemetry/trace.js';
+import { Span, SpanKind } from './opentelemetry/trace.js';
 
 const DEFAULT_COLOR_SCHEME: Record<string, string> = {
   [SpanKind.Internal]: '#4A90E2',
@@ -9,9 +9,23 @@ const DEFAULT_COLOR_SCHEME: Record<string, string> = {
   [SpanKind.Unspecified]: '#9013FE',
 };
 
+/**
+ * Colour for a span chosen by the host application: a CSS colour, or a colour
+ * with the legend label of the group it stands for.
+ */
+export type SpanColorFunction = (span: Span, serviceName: string) => string | { color: string; label: string };
+
+/**
+ * What span bars are coloured by: span kind (using `colorScheme`), service
+ * (a stable palette colour per name, or `serviceColors`), status, the value of
+ * a span or resource attribute (`attribute:<key>`), or a custom function.
+ */
+export type ColorBy = 'kind' | 'service' | 'status' | `attribute:${string}` | SpanColorFunction;
+
 export class VisualizationConfig {
   readonly width: number;
   readonly height: number;
+  /** Viewer background; empty to follow the `--trace-background` theme token. */
   readonly backgroundColor: string;
   readonly spanHeight: number;
   readonly spanPadding: number;
@@ -19,16 +33,20 @@ export class VisualizationConfig {
   readonly fullWidth: boolean;
   readonly detailPanelWidth: string;
   readonly colorScheme: Record<string, string>;
+  readonly colorBy: ColorBy;
+  readonly serviceColors: Record<string, string>;
 
   constructor(overrides: Partial<VisualizationConfig> = {}) {
     this.width = overrides.width || 0;
     this.height = overrides.height || 0;
-    this.backgroundColor = overrides.backgroundColor || '#ffffff';
+    this.backgroundColor = overrides.backgroundColor || '';
     this.spanHeight = overrides.spanHeight || 30;
     this.spanPadding = overrides.spanPadding || 5;
     this.showLegend = overrides.showLegend === true;
     this.fullWidth = overrides.fullWidth === true;
     this.detailPanelWidth = overrides.detailPanelWidth || '40%';
     this.colorScheme = overrides.colorScheme || DEFAULT_COLOR_SCHEME;
+    this.colorBy = overrides.colorBy || 'kind';
+    this.serviceColors = overrides.serviceColors || {};
   }
 }